@@ -0,0 +1,153 @@
+import React, { useState } from "react";
+import { AlertEvent, AlertMetric, alertMetrics, AlertOp, alertOps, AlertRule, describeRule } from "./alerts";
+
+/**
+ * Alert rules editor + fired-alert log (#/alerts).
+ * - Targets: the whole portfolio, every row, or one row; row-only metrics are hidden for the portfolio.
+ * - Money thresholds read in the target's currency (the base currency for the portfolio).
+ */
+
+type RowOption = { id: string; label: string; currency: string };
+
+function NewRuleForm({ rows, onAdd }: { rows: RowOption[]; onAdd: (rule: AlertRule) => void }) {
+  const [target, setTarget] = useState("portfolio");
+  const [metric, setMetric] = useState<AlertMetric>("unrealized");
+  const [op, setOp] = useState<AlertOp>("<=");
+  const [threshold, setThreshold] = useState("-500");
+
+  const metrics = alertMetrics.filter((m) => target !== "portfolio" || m.portfolio);
+  const value = parseFloat(threshold);
+
+  const pickTarget = (t: string) => {
+    setTarget(t);
+    if (t === "portfolio" && !alertMetrics.find((m) => m.key === metric)?.portfolio) setMetric("unrealized");
+  };
+
+  return (
+    <div className="flex flex-wrap items-end gap-3">
+      <div>
+        <label className="block text-xs text-slate-500">Watch</label>
+        <select className="border rounded-lg px-2 py-1 max-w-[16rem]" value={target} onChange={(e) => pickTarget(e.target.value)}>
+          <option value="portfolio">Portfolio total</option>
+          <option value="rows">Every row</option>
+          {rows.map((r) => (
+            <option key={r.id} value={r.id}>{r.label}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className="block text-xs text-slate-500">Metric</label>
+        <select className="border rounded-lg px-2 py-1" value={metric} onChange={(e) => setMetric(e.target.value as AlertMetric)}>
+          {metrics.map((m) => (
+            <option key={m.key} value={m.key}>{m.label}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className="block text-xs text-slate-500">When</label>
+        <select className="border rounded-lg px-2 py-1" value={op} onChange={(e) => setOp(e.target.value as AlertOp)}>
+          {alertOps.map((o) => (
+            <option key={o.key} value={o.key}>{o.label}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className="block text-xs text-slate-500">Threshold</label>
+        <input type="number" step="any" className="w-28 border rounded-lg px-2 py-1 text-right" value={threshold} onChange={(e) => setThreshold(e.target.value)} />
+      </div>
+      <button
+        disabled={!Number.isFinite(value)}
+        onClick={() => onAdd({ id: crypto.randomUUID(), target, metric, op, threshold: value, enabled: true })}
+        className="px-4 py-2 rounded-2xl bg-black text-white shadow hover:opacity-90 disabled:opacity-40"
+      >
+        Add Rule
+      </button>
+    </div>
+  );
+}
+
+export function AlertsPage({
+  rules,
+  log,
+  rows,
+  baseCurrency,
+  permission,
+  onAdd,
+  onToggle,
+  onDelete,
+  onClearLog,
+  onEnableNotifications,
+}: {
+  rules: AlertRule[];
+  log: AlertEvent[];
+  rows: RowOption[];
+  baseCurrency: string;
+  permission: string; // Notification.permission, or "unsupported"
+  onAdd: (rule: AlertRule) => void;
+  onToggle: (id: string) => void;
+  onDelete: (id: string) => void;
+  onClearLog: () => void;
+  onEnableNotifications: () => void;
+}) {
+  const codes = new Set(rows.map((r) => r.currency));
+  const targetCurrency = (t: string) =>
+    t === "portfolio" ? baseCurrency : t === "rows" ? (codes.size === 1 ? [...codes][0] : undefined) : rows.find((r) => r.id === t)?.currency;
+  const targetLabel = (t: string) => (t === "portfolio" ? "Portfolio" : t === "rows" ? "Every row" : rows.find((r) => r.id === t)?.label ?? "Removed row");
+
+  return (
+    <div className="space-y-6">
+      <section className="bg-white rounded-2xl shadow p-4 space-y-4">
+        <div className="flex items-center gap-3">
+          <div className="font-semibold">Alert Rules</div>
+          <div className="ml-auto text-sm text-slate-600">
+            {permission === "granted" ? (
+              "Browser notifications on"
+            ) : permission === "unsupported" ? (
+              "Browser notifications not available here"
+            ) : permission === "denied" ? (
+              "Browser notifications blocked in site settings"
+            ) : (
+              <button onClick={onEnableNotifications} className="px-3 py-1 rounded-xl bg-white border shadow hover:bg-slate-100">Enable notifications</button>
+            )}
+          </div>
+        </div>
+        <NewRuleForm rows={rows} onAdd={onAdd} />
+        {rules.length ? (
+          <ul className="divide-y text-sm">
+            {rules.map((r) => (
+              <li key={r.id} className="flex items-center gap-3 py-2">
+                <input type="checkbox" checked={r.enabled} onChange={() => onToggle(r.id)} />
+                <span className={`min-w-[10rem] ${r.target !== "portfolio" && r.target !== "rows" && !rows.some((x) => x.id === r.target) ? "text-rose-600" : "text-slate-600"}`}>
+                  {targetLabel(r.target)}
+                </span>
+                <span className={r.enabled ? "" : "text-slate-400"}>{describeRule(r, targetCurrency(r.target))}</span>
+                <button className="ml-auto text-rose-600 hover:underline" onClick={() => onDelete(r.id)}>Delete</button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="text-sm text-slate-500">No rules yet. Rules are checked after every quote refresh and every edit.</div>
+        )}
+      </section>
+
+      <section className="bg-white rounded-2xl shadow p-4">
+        <div className="flex items-center mb-3">
+          <div className="font-semibold">Alert Log</div>
+          {log.length > 0 && <button className="ml-auto text-sm text-slate-600 hover:underline" onClick={onClearLog}>Clear</button>}
+        </div>
+        {log.length ? (
+          <ul className="space-y-1 text-sm max-h-96 overflow-auto">
+            {log.map((e) => (
+              <li key={e.id} className="flex gap-3">
+                <span className="text-slate-400 whitespace-nowrap">{new Date(e.at).toLocaleString()}</span>
+                <span>{e.message}</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="text-sm text-slate-500">Nothing has fired yet.</div>
+        )}
+      </section>
+    </div>
+  );
+}
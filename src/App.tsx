@@ -1,4 +1,37 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
+import { AlertSubject, evaluateAlerts, rowMetrics } from "./alerts";
+import { AlertsPage } from "./AlertsPage";
+import { describeWorkspace, exportWorkspace, importWorkspace } from "./backup";
+import { ImportedPosition, MergeMode, mergeRows, positionToRow } from "./brokers/index";
+import { CalendarPage, ExpiryBadge } from "./CalendarPage";
+import { exerciseOf, multiplierOf, settlementOf, styleFor } from "./contractSpec";
+import { computePortfolio, Totals } from "./core";
+import { CsvDelimiter } from "./csv";
+import { exportCSV } from "./csvColumns";
+import ExportDialog from "./ExportDialog";
+import { expiryStatus } from "./expiry";
+import { appendHistory, ChangeSource, diffRows, emptyUndo, pushUndo, redo, undo, UndoStack } from "./history";
+import { currency, fixed, numberOr } from "./format";
+import { CURRENCIES, currencyOf, FxRates } from "./fx";
+import ImportDialog from "./ImportDialog";
+import { ClosePositionForm, CloseRequest, JournalPage } from "./JournalPage";
+import { JournalEntry, todayISO } from "./journal";
+import { costBasis, FeeSchedule, Lot, lotFields, orderFee, rowLots, takeLots } from "./lots";
+import LotsEditor from "./LotsEditor";
+import PayoffChart from "./PayoffChart";
+import { PortfolioSwitcher } from "./PortfolioSwitcher";
+import { PayoffLeg } from "./payoff";
+import { describeScenario, scenarioUnderlying, tickerKey, UnderlyingScenario } from "./scenario";
+import { contractIssues, contractText, fieldsOf, occSymbol, parseContract } from "./occ";
+import { fetchQuotes, isStale, PriceSource, Quote, quotePrice, quoteProviders, seedSnapshot } from "./quotes/index";
+import { LegSpec, strategyStats } from "./strategy";
+import { RiskPage } from "./RiskPage";
+import RowHistory from "./RowHistory";
+import { copyOfSnapshot, decodeSnapshot, encodeSnapshot, SHARE_PREFIX, shareDataFromHash, Snapshot, snapshotOf } from "./share";
+import { loadStore, newPortfolio, Portfolio, saveStore, SCHEMA_VERSION, Settings, Store } from "./storage";
+import { NewStrategyForm, StrategyList, StrategySummary } from "./StrategyPanel";
+import { BulkActions, TableToolbar } from "./TableControls";
+import { emptyFilter, filterRows, groupRows, nextSort, sortRows, subtotals, TableFilter, TableLayout, tableColumns } from "./tableView";
 
 /**
  * Options Scenario Web App — v4
@@ -6,71 +39,31 @@ import React, { useEffect, useMemo, useRef, useState } from "react";
  * New
  * - Top navigation with two pages: "Portfolio" and "Live Data".
  * - Summary bar restored (Total Current Value, Unrealized P/L, Value @ +/-%, Realized @ +/-%).
- * - Clean hash routing (#/portfolio, #/live).
+ * - Clean hash routing (#/portfolio, #/live, #/journal).
  *
  * Fixes
  * - Stable decimal inputs (type 1.72, .35, 1.).
- * - CSV helpers use safe one-line strings and robust quoted-split regex.
- * - Inline smoke tests via console.assert.
+ * - CSV import / export go through an RFC 4180 reader / writer (src/csv.ts): quotes, embedded newlines, BOM, "," or ";".
+ * - Unit tests sit next to their modules as `<module>.test.ts` and run with `npm test` (Vitest).
  *
  * Notes
- * - Assumes US equity options (multiplier 100).
- * - "Realized @ +X%" = (Current * (1+X) - Entry) * Contracts * 100.
+ * - "Realized @ +X%" = (Current * (1+X) - Entry) * Contracts * Multiplier - Fees.
+ * - Every P/L figure is net of fees: what the lots cost to open plus the fee schedule's cost to close (src/lots.ts).
  */
 
-// ---------- helpers ----------
-const currency = (n: number | undefined | null) =>
-  Number.isFinite(n as number)
-    ? (n as number).toLocaleString(undefined, { style: "currency", currency: "USD" })
-    : "—";
-
-const numberOr = (v: unknown, fallback = 0) => {
-  const n = typeof v === "string" ? parseFloat(v) : (v as number);
-  return Number.isFinite(n) ? (n as number) : fallback;
-};
-
-// pure compute helper (used both by UI and tests)
-export function computeRow(
-  entryPrice: number,
-  currentPrice: number,
-  contracts: number,
-  strike: number,
-  type: "C" | "P",
-  pct: number
-) {
-  const m = 100;
-  const p = pct / 100;
-  const plusPrice = currentPrice > 0 ? currentPrice * (1 + p) : NaN;
-  const minusPrice = currentPrice > 0 ? currentPrice * (1 - p) : NaN;
-  const curValue = currentPrice > 0 && contracts > 0 ? currentPrice * contracts * m : NaN;
-  const plusValue = Number.isFinite(plusPrice) && contracts > 0 ? (plusPrice as number) * contracts * m : NaN;
-  const minusValue = Number.isFinite(minusPrice) && contracts > 0 ? (minusPrice as number) * contracts * m : NaN;
-  const unrealNow = Number.isFinite(currentPrice) ? (currentPrice - entryPrice) * contracts * m : NaN;
-  const realizedPlus = Number.isFinite(plusPrice) ? ((plusPrice as number) - entryPrice) * contracts * m : NaN;
-  const realizedMinus = Number.isFinite(minusPrice) ? ((minusPrice as number) - entryPrice) * contracts * m : NaN;
-  const breakevenStock = type === "C" ? strike + entryPrice : NaN;
-  return { plusPrice, minusPrice, curValue, plusValue, minusValue, unrealNow, realizedPlus, realizedMinus, breakevenStock };
-}
-
-// quick smoke tests (run once in browser)
-if (typeof window !== "undefined") {
-  const t = computeRow(1.0, 1.72, 2, 15, "C", 15);
-  console.assert(Math.abs((t.plusPrice as number) - 1.978) < 1e-9, "plusPrice 15% of 1.72 ≈ 1.978");
-  console.assert(Math.abs((t.minusPrice as number) - 1.462) < 1e-9, "minusPrice 15% of 1.72 ≈ 1.462");
-  console.assert(Math.abs((t.curValue as number) - 344) < 1e-9, "curValue 1.72 * 2 * 100 = 344");
-}
-
 // ---------- inputs ----------
 function DecimalInput({
   value,
   onChange,
   decimals = 2,
   className = "",
+  placeholder,
 }: {
   value: string | number;
   onChange: (v: string) => void;
   decimals?: number;
   className?: string;
+  placeholder?: string;
 }) {
   const [text, setText] = useState(String(value ?? ""));
   useEffect(() => {
@@ -81,6 +74,7 @@ function DecimalInput({
     <input
       className={`w-28 border rounded-lg px-2 py-1 text-right ${className}`}
       value={text}
+      placeholder={placeholder}
       inputMode="decimal"
       onChange={(e) => {
         const v = e.target.value;
@@ -100,24 +94,78 @@ function DecimalInput({
 const emptyRow = () => ({
   id: crypto.randomUUID(),
   ticker: "CIFR",
-  contract: "CIFR Dec 19 2025 15C",
+  underlying: "14.50",
+  contract: contractText({ ticker: "CIFR", expiration: "2025-12-19", strike: 15, type: "C" }),
   expiration: "2025-12-19",
   strike: "15",
   type: "C" as const,
   contracts: "1",
   entryPrice: "1.00",
   currentPrice: "0.90",
+  iv: "",
+  side: "long",
+  strategyId: "",
+  openDate: todayISO(),
+  fees: "",
+  multiplier: "100",
+  exercise: "american",
+  settlement: "physical",
+  currency: "USD",
   notes: "",
 });
 
 // ---------- small UI ----------
-function Nav({ route, setRoute }: { route: string; setRoute: (r: string) => void }) {
+function ContractBadge({ issues, onFix }: { issues: string[]; onFix: () => void }) {
+  if (!issues.length) return null;
+  const unreadable = issues[0] === "contract";
+  return (
+    <button
+      onClick={onFix}
+      title={unreadable ? "Contract text not recognized — click to rebuild it from the fields" : `Contract text disagrees on ${issues.join(", ")} — click to rebuild it from the fields`}
+      className="text-xs px-2 py-1 rounded-lg bg-amber-50 text-amber-700 border border-amber-200 hover:bg-amber-100 whitespace-nowrap"
+    >
+      {unreadable ? "?" : `≠ ${issues.join(", ")}`}
+    </button>
+  );
+}
+
+type QuoteStatus = { symbol: string; quote: Quote | null; error: string };
+
+function QuoteCell({ status, now, staleSec }: { status?: QuoteStatus; now: number; staleSec: number }) {
+  if (!status) return <span className="text-slate-400">—</span>;
+  const q = status.quote;
+  const px = (n?: number) => (n != null && Number.isFinite(n) ? n.toFixed(2) : "—");
+  return (
+    <div className="text-xs leading-5 whitespace-nowrap">
+      {q && (
+        <>
+          <div>{px(q.bid)} × {px(q.ask)} <span className="text-slate-400">mid</span> {px(q.mid)} <span className="text-slate-400">last</span> {px(q.last)}</div>
+          <div className="text-slate-500">
+            {new Date(q.time).toLocaleTimeString()}
+            {isStale(q, now, staleSec) && <span className="ml-2 px-1.5 rounded bg-amber-50 text-amber-700 border border-amber-200">stale</span>}
+          </div>
+        </>
+      )}
+      {status.error && <div className="text-rose-600 max-w-[14rem] truncate" title={`${status.symbol}: ${status.error}`}>{status.error}</div>}
+    </div>
+  );
+}
+
+const ROUTES = [
+  { key: "portfolio", label: "Portfolio", hash: "#/portfolio" },
+  { key: "live", label: "Live Data", hash: "#/live" },
+  { key: "journal", label: "Journal", hash: "#/journal" },
+  { key: "alerts", label: "Alerts", hash: "#/alerts" },
+  { key: "calendar", label: "Calendar", hash: "#/calendar" },
+  { key: "risk", label: "Risk", hash: "#/risk" },
+];
+
+const routeFromHash = () => ROUTES.find((r) => r.key !== "portfolio" && window.location.hash.includes(`/${r.key}`))?.key ?? "portfolio";
+
+function Nav({ route, setRoute, badges = {} }: { route: string; setRoute: (r: string) => void; badges?: Record<string, number> }) {
   return (
     <nav className="mb-6 flex items-center gap-2">
-      {[
-        { key: "portfolio", label: "Portfolio", hash: "#/portfolio" },
-        { key: "live", label: "Live Data", hash: "#/live" },
-      ].map((item) => (
+      {ROUTES.map((item) => (
         <a
           key={item.key}
           href={item.hash}
@@ -131,62 +179,298 @@ function Nav({ route, setRoute }: { route: string; setRoute: (r: string) => void
           }`}
         >
           {item.label}
+          {badges[item.key] ? <span className="ml-2 px-1.5 rounded-full bg-rose-600 text-white text-xs">{badges[item.key]}</span> : null}
         </a>
       ))}
     </nav>
   );
 }
 
+function ScenarioPanel({
+  scenario,
+  setScenario,
+  tickers,
+}: {
+  scenario: UnderlyingScenario;
+  setScenario: (s: UnderlyingScenario) => void;
+  tickers: string[];
+}) {
+  return (
+    <section className="bg-white rounded-2xl shadow p-4 mb-4 flex flex-wrap items-center gap-4">
+      <div className="font-semibold">Underlying Scenario</div>
+      <div className="flex rounded-xl border overflow-hidden text-sm">
+        {[
+          { key: "move" as const, label: "Move %" },
+          { key: "target" as const, label: "Target $" },
+        ].map((m) => (
+          <button
+            key={m.key}
+            onClick={() => setScenario({ ...scenario, mode: m.key })}
+            className={`px-3 py-2 ${scenario.mode === m.key ? "bg-black text-white" : "bg-white hover:bg-slate-100"}`}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+      {scenario.mode === "move" ? (
+        <label className="flex items-center gap-2 text-sm text-slate-600">
+          Move
+          <input
+            type="number"
+            value={scenario.movePct}
+            min={-95}
+            max={500}
+            onChange={(e) => setScenario({ ...scenario, movePct: numberOr(e.target.value, 0) })}
+            className="w-20 border rounded-xl px-3 py-2 text-right"
+          />
+          %
+        </label>
+      ) : (
+        tickers.map((t) => (
+          <label key={t} className="flex items-center gap-2 text-sm text-slate-600">
+            {t} $
+            <DecimalInput
+              value={Number.isFinite(scenario.targets[t]) ? scenario.targets[t] : ""}
+              onChange={(v) => setScenario({ ...scenario, targets: { ...scenario.targets, [t]: numberOr(v, NaN) } })}
+              decimals={2}
+            />
+          </label>
+        ))
+      )}
+      <label className="flex items-center gap-2 text-sm text-slate-600">
+        Days forward
+        <input
+          type="number"
+          value={scenario.days}
+          min={0}
+          onChange={(e) => setScenario({ ...scenario, days: Math.max(0, Math.round(numberOr(e.target.value, 0))) })}
+          className="w-20 border rounded-xl px-3 py-2 text-right"
+        />
+      </label>
+    </section>
+  );
+}
+
 function SummaryBar({
   pct,
+  scenarioLabel,
   totals,
+  code,
+  missing = [],
 }: {
   pct: number;
-  totals: { curValue: number; unrealNow: number; plusValue: number; minusValue: number; realizedPlus: number; realizedMinus: number };
+  scenarioLabel: string;
+  totals: Totals;
+  code: string;
+  missing?: string[];
 }) {
+  const money = (n: number) => currency(n, code);
   return (
-    <section className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4 mb-6">
-      <SummaryCard title="Total Current Value" value={totals.curValue} />
-      <SummaryCard title="Total Unrealized P/L Now" value={totals.unrealNow} />
-      <SummaryCard title={`Total Value @ +${pct}%`} value={totals.plusValue} />
-      <SummaryCard title={`Total Value @ -${pct}%`} value={totals.minusValue} />
-      <SummaryCard title={`Total Realized Gain @ +${pct}%`} value={totals.realizedPlus} />
-      <SummaryCard title={`Total Realized Gain @ -${pct}%`} value={totals.realizedMinus} />
-    </section>
+    <>
+      {missing.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 text-amber-800 rounded-2xl p-3 text-sm mb-4">
+          No FX rate to {code} for {missing.join(", ")}: those rows are left out of the totals.
+        </div>
+      )}
+      <section className="grid sm:grid-cols-3 gap-4 mb-4">
+        <SummaryCard title={`Total Value @ ${scenarioLabel}`} value={totals.scenValue} format={money} />
+        <SummaryCard title={`Total P/L @ ${scenarioLabel}`} value={totals.scenPL} format={money} />
+        <SummaryCard title="Fees (paid + est. to close)" value={totals.fees} format={money} />
+      </section>
+      <section className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4 mb-4">
+        <SummaryCard title="Total Current Value" value={totals.curValue} format={money} />
+        <SummaryCard title="Total Unrealized P/L Now" value={totals.unrealNow} format={money} />
+        <SummaryCard title={`Total Value @ +${pct}%`} value={totals.plusValue} format={money} />
+        <SummaryCard title={`Total Value @ -${pct}%`} value={totals.minusValue} format={money} />
+        <SummaryCard title={`Total Realized Gain @ +${pct}%`} value={totals.realizedPlus} format={money} />
+        <SummaryCard title={`Total Realized Gain @ -${pct}%`} value={totals.realizedMinus} format={money} />
+      </section>
+      <section className="grid grid-cols-2 sm:grid-cols-5 gap-4 mb-6">
+        <SummaryCard title="Net Delta (shares)" value={totals.delta} format={(n) => fixed(n, 1)} />
+        <SummaryCard title="Net Gamma (shares / $1)" value={totals.gamma} format={(n) => fixed(n, 2)} />
+        <SummaryCard title="Theta / day" value={totals.theta} format={money} />
+        <SummaryCard title="Vega / vol pt" value={totals.vega} format={money} />
+        <SummaryCard title="Rho / 1% rate" value={totals.rho} format={money} />
+      </section>
+    </>
   );
 }
 
-function SummaryCard({ title, value }: { title: string; value: number }) {
+function SummaryCard({ title, value, format = currency }: { title: string; value: number; format?: (n: number) => string }) {
   return (
     <div className="bg-white rounded-2xl shadow p-4">
       <div className="text-sm text-slate-600">{title}</div>
-      <div className="text-xl font-semibold mt-1">{currency(value)}</div>
+      <div className="text-xl font-semibold mt-1">{format(value)}</div>
     </div>
   );
 }
 
+// read-only view of a shared snapshot (#/share/...); nothing here writes to the viewer's portfolios
+function SharedView({ snapshot, onSave, onClose }: { snapshot: Snapshot; onSave: () => void; onClose: () => void }) {
+  const { pct, scenario, baseCurrency } = snapshot.settings;
+  const { rows, totals, missing } = useMemo(() => computePortfolio(snapshot.rows, snapshot.settings), [snapshot]);
+  const strategyName = (id: string) => snapshot.strategies.find((s) => s.id === id)?.name ?? "";
+  return (
+    <>
+      <section className="bg-sky-50 border border-sky-200 rounded-2xl p-4 mb-6 flex flex-wrap items-center gap-3">
+        <div>
+          <div className="font-semibold">Shared snapshot: {snapshot.name}</div>
+          <div className="text-sm text-slate-600">
+            Read-only{snapshot.at ? `, taken ${new Date(snapshot.at).toLocaleString()}` : ""}. Prices are as of the snapshot; nothing here is live.
+          </div>
+        </div>
+        <button onClick={onSave} className="ml-auto px-4 py-2 rounded-2xl bg-black text-white shadow hover:opacity-90">Save a copy as portfolio</button>
+        <button onClick={onClose} className="px-4 py-2 rounded-2xl bg-white border shadow hover:bg-slate-100">Close</button>
+      </section>
+
+      <SummaryBar pct={pct} scenarioLabel={describeScenario(scenario)} totals={totals} code={baseCurrency} missing={missing} />
+
+      <div className="overflow-auto rounded-2xl border bg-white shadow">
+        <table className="w-full">
+          <thead className="bg-slate-100">
+            <tr>
+              {["Contract", "Side", "Contracts", "Underlying $", "Entry $", "Current $", "Current Value", "Unreal. P/L Now", "Breakeven", "Delta", "Theta/day", "Strategy", "Notes"].map((h) => (
+                <th key={h} className="text-left text-sm font-semibold text-slate-700 px-3 py-3 whitespace-nowrap">{h}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r: any) => (
+              <tr key={r.id} className="border-t">
+                <td className="px-3 py-2 whitespace-nowrap">{r.contract || r.ticker}</td>
+                <td className={`px-3 py-2 ${r.side === "short" ? "text-rose-700" : ""}`}>{r.side === "short" ? "Sell" : "Buy"}</td>
+                <td className="px-3 py-2">{r.contracts}</td>
+                <td className="px-3 py-2 whitespace-nowrap">{currency(numberOr(r.underlying, NaN), r.currency)}</td>
+                <td className="px-3 py-2 whitespace-nowrap">{currency(numberOr(r.entryPrice, NaN), r.currency)}</td>
+                <td className="px-3 py-2 whitespace-nowrap">{currency(numberOr(r.currentPrice, NaN), r.currency)}</td>
+                <td className="px-3 py-2 whitespace-nowrap">{currency(r.curValue, r.currency)}</td>
+                <td className="px-3 py-2 whitespace-nowrap font-medium">{currency(r.unrealNow, r.currency)}</td>
+                <td className="px-3 py-2 whitespace-nowrap">{fixed(r.breakevenStock, 2)}</td>
+                <td className="px-3 py-2 whitespace-nowrap">{fixed(r.delta, 1)}</td>
+                <td className="px-3 py-2 whitespace-nowrap">{currency(r.theta, r.currency)}</td>
+                <td className="px-3 py-2 whitespace-nowrap">{strategyName(r.strategyId)}</td>
+                <td className="px-3 py-2">{r.notes}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
+
+const downloadFile = (text: string, fileName: string, type: string) => {
+  const blob = new Blob([text], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
 // ---------- app ----------
 export default function App() {
-  const [rows, setRows] = useState(() => {
-    const fromLS = localStorage.getItem("optionsRows_v4");
-    return fromLS ? JSON.parse(fromLS) : [emptyRow()];
-  });
-  const [pct, setPct] = useState(15);
-  const [route, setRoute] = useState<string>(() => (window.location.hash.includes("/live") ? "live" : "portfolio"));
+  const [initial] = useState(() => loadStore(localStorage, () => [emptyRow()]));
+  const saved = initial.store.settings;
+  const [portfolios, setPortfolios] = useState<Portfolio[]>(initial.store.portfolios);
+  const [activeId, setActiveId] = useState(initial.store.activeId);
+  const [storageNotices, setStorageNotices] = useState<string[]>(initial.notices);
+  const [saveError, setSaveError] = useState(initial.readOnly ? "the saved data is from a newer version of the app and is left untouched" : "");
+  const [pct, setPct] = useState(saved.pct);
+  const [ratePct, setRatePct] = useState(saved.ratePct);
+  const [scenario, setScenario] = useState<UnderlyingScenario>(saved.scenario);
+  const [chartKey, setChartKey] = useState<string | null>(null); // "row:<id>" | "ticker:<TICKER>" | "strategy:<id>"
+  const [showNewStrategy, setShowNewStrategy] = useState(false);
+  const [route, setRoute] = useState<string>(routeFromHash);
+  const [closingId, setClosingId] = useState<string | null>(null);
+  const [lotsId, setLotsId] = useState<string | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [pendingImport, setPendingImport] = useState<{ text: string; fileName: string } | null>(null);
+  const [pendingRestore, setPendingRestore] = useState<{ fileName: string; store: Store | null; problems: string[] } | null>(null);
+  const [shareLink, setShareLink] = useState<{ url: string; copied: boolean } | null>(null);
+  const [shareData, setShareData] = useState(() => shareDataFromHash(window.location.hash));
+  const [shared, setShared] = useState<Snapshot | null | "invalid">(null);
+
+  // the active portfolio's collections, with setters shaped like useState's
+  const active = portfolios.find((p) => p.id === activeId) ?? portfolios[0];
+  const updateActive =
+    <K extends keyof Portfolio>(key: K) =>
+    (next: Portfolio[K] | ((prev: Portfolio[K]) => Portfolio[K])) =>
+      setPortfolios((ps) => ps.map((p) => (p.id === active.id ? { ...p, [key]: typeof next === "function" ? (next as (prev: Portfolio[K]) => Portfolio[K])(p[key]) : next } : p)));
+  const rows = active.rows;
+  const setRows = updateActive("rows");
+  const strategies = active.strategies;
+  const setStrategies = updateActive("strategies");
+  const journal = active.journal;
+  const setJournal = updateActive("journal");
+  const alertRules = active.alerts;
+  const setAlertRules = updateActive("alerts");
+  const alertLog = active.alertLog;
+  const setAlertLog = updateActive("alertLog");
+  const setAlertState = updateActive("alertState");
+  const setHistory = updateActive("history");
+
+  const [unseenAlerts, setUnseenAlerts] = useState(0);
+  const [notifyPermission, setNotifyPermission] = useState(() => (typeof Notification === "undefined" ? "unsupported" : Notification.permission));
 
   // optional data feed (separate page)
-  const [dataFeedUrl, setDataFeedUrl] = useState("");
-  const [apiKey, setApiKey] = useState("");
-  const [autoRefresh, setAutoRefresh] = useState(false);
-  const [refreshSec, setRefreshSec] = useState(15);
+  const [providerKey, setProviderKey] = useState(saved.providerKey);
+  const [dataFeedUrl, setDataFeedUrl] = useState(saved.dataFeedUrl);
+  const [apiKey, setApiKey] = useState(saved.apiKey);
+  const [rememberApiKey, setRememberApiKey] = useState(saved.rememberApiKey);
+  const [replay, setReplay] = useState(saved.replay);
+  const [priceSource, setPriceSource] = useState<PriceSource>(saved.priceSource);
+  const [staleSec, setStaleSec] = useState(saved.staleSec);
+  const [csvColumnKeys, setCsvColumnKeys] = useState(saved.csvColumns);
+  const [csvDelimiter, setCsvDelimiter] = useState<CsvDelimiter>(saved.csvDelimiter);
+  const [concentrationPct, setConcentrationPct] = useState(saved.concentrationPct);
+  const [feeSchedule, setFeeSchedule] = useState<FeeSchedule>(saved.feeSchedule);
+  const [baseCurrency, setBaseCurrency] = useState(saved.baseCurrency);
+  const [fxRates, setFxRates] = useState<FxRates>(saved.fxRates);
+  const [tableLayout, setTableLayout] = useState<TableLayout>(saved.tableLayout);
+  const [tableFilter, setTableFilter] = useState<TableFilter>(emptyFilter);
+  const [selected, setSelected] = useState<string[]>([]); // row ids
+  const [showExport, setShowExport] = useState(false);
+  const [autoRefresh, setAutoRefresh] = useState(saved.autoRefresh);
+  const [refreshSec, setRefreshSec] = useState(saved.refreshSec);
+  const [quotes, setQuotes] = useState<Record<string, QuoteStatus>>({}); // by row id
+  const [quoteRun, setQuoteRun] = useState<{ at: number; ok: number; failed: number; busy: boolean } | null>(null);
+  const [clock, setClock] = useState(() => Date.now());
   const timer = useRef<number | null>(null);
+  const replayStep = useRef(0);
+  const [undoStack, setUndoStack] = useState<UndoStack>(emptyUndo);
+  const changeSource = useRef<ChangeSource>("manual"); // set just before a non-typing setRows, read once below
+  const lastRows = useRef({ portfolioId: active.id, rows });
+  const provider = quoteProviders.find((p) => p.key === providerKey) ?? quoteProviders[0];
 
+  const settings: Settings = { pct, ratePct, scenario, providerKey, dataFeedUrl, apiKey, rememberApiKey, replay, priceSource, staleSec, autoRefresh, refreshSec, csvColumns: csvColumnKeys, csvDelimiter, concentrationPct, feeSchedule, baseCurrency, fxRates, tableLayout };
+  // portfolios and settings go to one versioned localStorage document (src/storage.ts)
   useEffect(() => {
-    localStorage.setItem("optionsRows_v4", JSON.stringify(rows));
-  }, [rows]);
+    if (initial.readOnly) return;
+    setSaveError(saveStore(localStorage, { version: SCHEMA_VERSION, activeId: active.id, portfolios, settings }));
+  }, [portfolios, active.id, pct, ratePct, scenario, providerKey, dataFeedUrl, apiKey, rememberApiKey, replay, priceSource, staleSec, autoRefresh, refreshSec, csvColumnKeys, csvDelimiter, concentrationPct, feeSchedule, baseCurrency, fxRates, tableLayout]);
 
   useEffect(() => {
-    const onHash = () => setRoute(window.location.hash.includes("/live") ? "live" : "portfolio");
+    if (!shareData) return setShared(null);
+    let live = true;
+    decodeSnapshot(shareData).then((snap) => live && setShared(snap ?? "invalid"));
+    return () => {
+      live = false;
+    };
+  }, [shareData]);
+
+  useEffect(() => {
+    if (route === "alerts") setUnseenAlerts(0);
+  }, [route, alertLog]);
+
+  useEffect(() => {
+    const onHash = () => {
+      setRoute(routeFromHash());
+      setShareData(shareDataFromHash(window.location.hash));
+    };
     window.addEventListener("hashchange", onHash);
     return () => window.removeEventListener("hashchange", onHash);
   }, []);
@@ -201,178 +485,542 @@ export default function App() {
     return () => {
       if (timer.current) window.clearInterval(timer.current);
     };
-  }, [autoRefresh, refreshSec, dataFeedUrl, apiKey, rows, route]);
+  }, [autoRefresh, refreshSec, providerKey, dataFeedUrl, apiKey, replay, priceSource, rows, route]);
+
+  // keeps "stale" badges honest between refreshes
+  const hasQuotes = Object.keys(quotes).length > 0;
+  useEffect(() => {
+    if (!hasQuotes) return;
+    const id = window.setInterval(() => setClock(Date.now()), 5000);
+    return () => window.clearInterval(id);
+  }, [hasQuotes]);
+
+  // every change to the rows passes through here: logged per row, and undoable unless it is an undo / redo itself
+  useEffect(() => {
+    const source = changeSource.current;
+    changeSource.current = "manual";
+    const last = lastRows.current;
+    lastRows.current = { portfolioId: active.id, rows };
+    if (last.portfolioId !== active.id) return setUndoStack(emptyUndo());
+    if (last.rows === rows) return;
+    const diffs = diffRows(last.rows, rows);
+    if (!diffs.length) return;
+    const at = Date.now();
+    setHistory((h) => appendHistory(h, diffs, source, at));
+    if (source !== "undo" && source !== "redo") setUndoStack((s) => pushUndo(s, last.rows, diffs, source, at));
+  }, [rows, active.id]);
+
+  const undoRedo = (dir: "undo" | "redo") => {
+    const out = (dir === "undo" ? undo : redo)(undoStack, rows);
+    if (!out) return;
+    changeSource.current = dir;
+    setUndoStack(out.stack);
+    setRows(out.rows);
+  };
+
+  // inputs, selects, textareas and contenteditable keep the browser's own undo; the shortcut works everywhere else
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      const key = e.key.toLowerCase();
+      const target = e.target as HTMLElement | null;
+      const editable = !!target && (["INPUT", "SELECT", "TEXTAREA"].includes(target.tagName) || target.isContentEditable);
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || (key !== "z" && key !== "y") || editable) return;
+      e.preventDefault();
+      undoRedo(key === "y" || e.shiftKey ? "redo" : "undo");
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [undoStack, rows]);
 
   const addRow = () => setRows((r: any[]) => [...r, emptyRow()]);
   const removeRow = (id: string) => setRows((r: any[]) => r.filter((x) => x.id !== id));
   const updateRow = (id: string, patch: Record<string, unknown>) =>
     setRows((r: any[]) => r.map((x) => (x.id === id ? { ...x, ...patch } : x)));
 
-  const computed = useMemo(() => {
-    const withCalcs = rows.map((row: any) => {
-      const entry = numberOr(row.entryPrice);
-      const cur = numberOr(row.currentPrice);
-      const qty = numberOr(row.contracts, 0);
-      const strike = numberOr(row.strike);
-      const res = computeRow(entry, cur, qty, strike, (row.type as "C" | "P") || "C", pct);
-      return { ...row, ...res };
-    });
+  // recognized contract text → structured fields + canonical text; anything else is left as typed.
+  // The ticker's default style only lands on a new ticker or a row still on American / physical, never over a hand-set one.
+  const normalizeContract = (id: string, text: string) => {
+    const f = parseContract(text);
+    if (!f) return;
+    const row = (rows as any[]).find((r) => r.id === id);
+    const restyle = !row || tickerKey(row.ticker) !== tickerKey(f.ticker) || (exerciseOf(row) === "american" && settlementOf(row) === "physical");
+    updateRow(id, { contract: contractText(f), ticker: f.ticker, expiration: f.expiration, strike: f.strike.toFixed(2), type: f.type, ...(restyle ? styleFor(f.ticker) : {}) });
+  };
+  const rebuildContract = (row: any) => {
+    const f = fieldsOf(row);
+    if (f) updateRow(row.id, { contract: contractText(f) });
+  };
 
-    const totals = withCalcs.reduce(
-      (acc: Record<string, number>, r: any) => {
-        acc.curValue += numberOr(r.curValue, 0);
-        acc.unrealNow += numberOr(r.unrealNow, 0);
-        acc.plusValue += numberOr(r.plusValue, 0);
-        acc.minusValue += numberOr(r.minusValue, 0);
-        acc.realizedPlus += numberOr(r.realizedPlus, 0);
-        acc.realizedMinus += numberOr(r.realizedMinus, 0);
-        return acc;
-      },
-      { curValue: 0, unrealNow: 0, plusValue: 0, minusValue: 0, realizedPlus: 0, realizedMinus: 0 }
-    );
+  const createStrategy = (name: string, template: string, ticker: string, legs: LegSpec[]) => {
+    const strategy = { id: crypto.randomUUID(), name, template };
+    const underlying = (rows as any[]).find((r) => tickerKey(r.ticker) === ticker && r.underlying)?.underlying ?? "";
+    const newRows = legs.map((leg) => ({
+      ...emptyRow(),
+      ticker,
+      underlying,
+      contract: contractText({ ticker, expiration: leg.expiration, strike: leg.strike, type: leg.type }),
+      expiration: leg.expiration,
+      strike: String(leg.strike),
+      type: leg.type,
+      side: leg.side,
+      contracts: String(leg.contracts),
+      entryPrice: "",
+      currentPrice: "",
+      strategyId: strategy.id,
+    }));
+    setStrategies((s) => [...s, strategy]);
+    setRows((r: any[]) => [...r, ...newRows]);
+    setShowNewStrategy(false);
+  };
+  // record a (partial) close in the journal, one entry per lot touched; the row keeps whatever is left open
+  const closePosition = (row: any, req: CloseRequest) => {
+    const { taken, left } = takeLots(rowLots(row, feeSchedule), req.contracts, req.method, req.picks);
+    const entries: JournalEntry[] = taken.map((lot) => ({
+      id: crypto.randomUUID(),
+      rowId: row.id,
+      ticker: row.ticker,
+      contract: row.contract,
+      type: row.type === "P" ? "P" : "C",
+      side: row.side === "short" ? "short" : "long",
+      strike: numberOr(row.strike),
+      expiration: row.expiration,
+      contracts: lot.contracts,
+      entryPrice: lot.price,
+      exitPrice: req.exitPrice,
+      openDate: lot.openDate,
+      closeDate: req.closeDate,
+      fees: Math.round((lot.fees + (req.fees * lot.contracts) / req.contracts) * 100) / 100,
+      reason: req.reason,
+      notes: row.notes ?? "",
+      multiplier: multiplierOf(row),
+      currency: currencyOf(row),
+    }));
+    setJournal((j) => [...j, ...entries]);
+    if (left.length) updateRow(row.id, lotFields(left));
+    else removeRow(row.id);
+    setClosingId(null);
+  };
 
-    return { rows: withCalcs, totals };
-  }, [rows, pct]);
+  const renameStrategy = (id: string, name: string) => setStrategies((s) => s.map((x) => (x.id === id ? { ...x, name } : x)));
+  const ungroupStrategy = (id: string) => {
+    setStrategies((s) => s.filter((x) => x.id !== id));
+    setRows((r: any[]) => r.map((x) => (x.strategyId === id ? { ...x, strategyId: "" } : x)));
+    if (chartKey === `strategy:${id}`) setChartKey(null);
+  };
 
-  async function fetchOptionQuote(contractText: string) {
-    if (!dataFeedUrl) return null;
-    try {
-      const url = new URL(dataFeedUrl);
-      url.searchParams.set("contract", contractText);
-      const res = await fetch(url.toString(), {
-        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
-      });
-      if (!res.ok) throw new Error(`HTTP ${res.status}`);
-      const json = await res.json();
-      return typeof json?.last === "number" ? json.last : null;
-    } catch (e) {
-      console.warn("Fetch quote failed", e);
-      return null;
+  const tickers = useMemo(
+    () => Array.from(new Set((rows as any[]).map((r) => tickerKey(r.ticker)).filter(Boolean))) as string[],
+    [rows]
+  );
+
+  const computed = useMemo(
+    () => computePortfolio(rows, { pct, ratePct, scenario, feeSchedule, baseCurrency, fxRates }),
+    [rows, pct, ratePct, scenario, feeSchedule, baseCurrency, fxRates]
+  );
+  // table view: filter → sort → group; a column's sort value is what its cell shows
+  const columnByKey = new Map(tableColumns.map((c) => [c.key, c]));
+  const tableGroups = useMemo(() => {
+    const sortValue = (r: any, key: string) =>
+      key === "strategy"
+        ? strategies.find((s) => s.id === r.strategyId)?.name ?? ""
+        : key === "quote"
+          ? quotes[r.id]?.quote?.time ?? NaN
+          : key === "scenUnderlying"
+            ? scenarioUnderlying(r.ticker, numberOr(r.underlying, NaN), scenario)
+            : r[key];
+    const shown = filterRows(computed.rows as any[], tableFilter);
+    const sorted = tableLayout.sortKey ? sortRows(shown, tableLayout.sortDir, (r) => sortValue(r, tableLayout.sortKey)) : shown;
+    return groupRows(sorted, tableLayout.groupBy);
+  }, [computed, tableFilter, tableLayout, strategies, quotes, scenario]);
+  const shownIds = tableGroups.flatMap((g) => g.rows.map((r: any) => r.id as string));
+  const selectedRows = (rows as any[]).filter((r) => selected.includes(r.id));
+  const selectRows = (ids: string[], on: boolean) => setSelected((s) => (on ? Array.from(new Set([...s, ...ids])) : s.filter((id) => !ids.includes(id))));
+
+  // bulk close: everything, at Current $, today, FIFO, estimated fees; rows without a price stay open and selected
+  const closeSelected = () => {
+    const priced = selectedRows.filter((r) => numberOr(r.currentPrice, NaN) >= 0);
+    for (const row of priced) {
+      const contracts = Math.abs(numberOr(row.contracts, 0));
+      if (!(contracts > 0)) continue;
+      closePosition(row, { contracts, exitPrice: numberOr(row.currentPrice), closeDate: todayISO(), fees: orderFee(feeSchedule, contracts), reason: "closed", method: "fifo", picks: {} });
     }
-  }
+    setSelected(selectedRows.filter((r) => !priced.includes(r)).map((r) => r.id));
+  };
 
-  async function refreshQuote(id: string, contractText: string) {
-    const px = await fetchOptionQuote(contractText);
-    if (px != null) updateRow(id, { currentPrice: String(px) });
-  }
+  // currencies that need a rate: every non-USD code in use, plus the base itself
+  const fxCodes = Array.from(new Set([...(rows as any[]).map(currencyOf), baseCurrency])).filter((c) => c !== "USD");
+  const expiredCount = (computed.rows as any[]).filter((r) => expiryStatus(r.dte) === "expired").length;
 
-  async function refreshAllQuotes() {
-    for (const r of rows as any[]) {
-      if (r.contract) {
-        const px = await fetchOptionQuote(r.contract);
-        if (px != null) updateRow(r.id, { currentPrice: String(px) });
+  // rows change on every edit and every quote refresh, so this runs after both
+  useEffect(() => {
+    if (!alertRules.length) return;
+    const now = Date.now();
+    const totals = computed.totals as Totals;
+    const subjects: AlertSubject[] = [
+      { key: "portfolio", label: "Portfolio", metrics: { unrealized: totals.unrealNow, value: totals.curValue, delta: totals.delta, theta: totals.theta }, currency: baseCurrency },
+      ...(computed.rows as any[]).map((r) => ({ key: r.id, label: r.contract || r.ticker || "Untitled row", metrics: rowMetrics(r, now), currency: currencyOf(r) })),
+    ];
+    const { fired, state } = evaluateAlerts(alertRules, subjects, active.alertState, now);
+    if (JSON.stringify(state) !== JSON.stringify(active.alertState)) setAlertState(state);
+    if (!fired.length) return;
+    setAlertLog((log) => [...fired.slice().reverse(), ...log].slice(0, 200));
+    setUnseenAlerts((n) => n + fired.length);
+    if (typeof Notification !== "undefined" && Notification.permission === "granted") {
+      for (const e of fired) new Notification("Options alert", { body: e.message, tag: e.id });
+    }
+  }, [computed, alertRules]);
+
+  // ---------- portfolios ----------
+  const switchPortfolio = (id: string) => {
+    setActiveId(id);
+    setChartKey(null);
+    setClosingId(null);
+    setLotsId(null);
+    setHistoryId(null);
+    setPendingImport(null);
+    setUnseenAlerts(0);
+  };
+  const createPortfolio = (name: string) => {
+    const p = newPortfolio(name, [emptyRow()]);
+    setPortfolios((ps) => [...ps, p]);
+    switchPortfolio(p.id);
+  };
+  const renamePortfolio = (id: string, name: string) => setPortfolios((ps) => ps.map((p) => (p.id === id ? { ...p, name } : p)));
+  const deletePortfolio = (id: string) => {
+    if (portfolios.length < 2) return;
+    setPortfolios((ps) => ps.filter((p) => p.id !== id));
+    switchPortfolio(portfolios.find((p) => p.id !== id)!.id);
+  };
+
+  const enableNotifications = () => {
+    if (typeof Notification === "undefined") return;
+    Notification.requestPermission().then(setNotifyPermission);
+  };
+
+  const legsOf = (picked: any[]): PayoffLeg[] =>
+    picked.map((r) => ({
+      type: r.type === "P" ? "P" : "C",
+      strike: numberOr(r.strike, NaN),
+      expiration: r.expiration,
+      entryPrice: numberOr(r.entryPrice),
+      contracts: r.qty,
+      iv: r.modelIv,
+      multiplier: multiplierOf(r),
+    }));
+
+  const strategySummaries = useMemo<StrategySummary[]>(
+    () =>
+      strategies.map((strategy) => {
+        const picked = (computed.rows as any[]).filter((r) => r.strategyId === strategy.id);
+        const legs = legsOf(picked);
+        return { strategy, legs: legs.length, code: currencyOf(picked[0] ?? {}), ...strategyStats(legs, ratePct / 100) };
+      }),
+    [strategies, computed, ratePct]
+  );
+
+  // payoff chart of one row, one strategy or every leg on a ticker combined
+  const chart = useMemo(() => {
+    if (!chartKey) return null;
+    const sep = chartKey.indexOf(":");
+    const kind = chartKey.slice(0, sep);
+    const key = chartKey.slice(sep + 1);
+    const picked = (computed.rows as any[]).filter((r) =>
+      kind === "row" ? r.id === key : kind === "strategy" ? r.strategyId === key : tickerKey(r.ticker) === key
+    );
+    if (!picked.length) return null;
+    const spot = numberOr(picked.find((r) => numberOr(r.underlying, 0) > 0)?.underlying, NaN);
+    const title =
+      kind === "row"
+        ? picked[0].contract || picked[0].ticker
+        : kind === "strategy"
+          ? strategies.find((s) => s.id === key)?.name ?? "Strategy"
+          : `${key} — all ${picked.length} leg${picked.length === 1 ? "" : "s"}`;
+    return { legs: legsOf(picked), spot, title, code: currencyOf(picked[0]) };
+  }, [chartKey, computed, strategies]);
+
+  // OCC symbol from the structured fields, else from the contract text, else the raw text
+  const quoteSymbol = (row: any) => {
+    const f = fieldsOf(row) ?? parseContract(row.contract);
+    return f ? occSymbol(f) : row.contract;
+  };
+
+  // one provider call for all targets; each row records its own quote or error, and good prices fill Current $
+  async function refreshQuotes(targets: any[]) {
+    const wanted = targets.filter((r) => r.contract || fieldsOf(r)).map((r) => ({ id: r.id as string, symbol: quoteSymbol(r) }));
+    if (!wanted.length) return;
+    setQuoteRun((run) => ({ at: run?.at ?? 0, ok: run?.ok ?? 0, failed: run?.failed ?? 0, busy: true }));
+    const results =
+      provider.needsUrl && !dataFeedUrl
+        ? Object.fromEntries(wanted.map((w) => [w.symbol, { kind: "error" as const, error: "no endpoint URL set" }]))
+        : await fetchQuotes(provider, wanted.map((w) => w.symbol), { url: dataFeedUrl, apiKey, replay, step: replayStep.current++ });
+
+    const prices = new Map<string, number>();
+    let ok = 0;
+    setQuotes((prev) => {
+      const next = { ...prev };
+      for (const w of wanted) {
+        const out = results[w.symbol];
+        const kept = prev[w.id]?.symbol === w.symbol ? prev[w.id].quote : null;
+        next[w.id] = out?.kind === "quote" ? { symbol: w.symbol, quote: out.quote, error: "" } : { symbol: w.symbol, quote: kept, error: out?.error ?? "no response" };
       }
+      return next;
+    });
+    for (const w of wanted) {
+      const out = results[w.symbol];
+      if (out?.kind !== "quote") continue;
+      ok += 1;
+      const px = quotePrice(out.quote, priceSource);
+      if (Number.isFinite(px)) prices.set(w.id, px);
     }
+    changeSource.current = "quote";
+    setRows((r: any[]) => r.map((x) => (prices.has(x.id) ? { ...x, currentPrice: String(prices.get(x.id)) } : x)));
+    setQuoteRun({ at: Date.now(), ok, failed: wanted.length - ok, busy: false });
+    setClock(Date.now());
   }
 
-  const headers = [
-    "Ticker",
-    "Contract",
-    "Exp.",
-    "Strike",
-    "Type",
-    "Contracts",
-    "Entry $",
-    "Current $",
-    `+${pct}% $`,
-    `-${pct}% $`,
-    "Current Value",
-    `+${pct}% Value`,
-    `-${pct}% Value`,
-    "Unreal. P/L Now",
-    `Realized @ +${pct}%`,
-    `Realized @ -${pct}%`,
-    "Breakeven (Calls)",
-    "Notes",
-    "",
-  ];
-
-  // CSV helpers
-  const toCSV = () => {
-    const csvHeaders = [
-      "Ticker",
-      "Contract",
-      "Expiration",
-      "Strike",
-      "Type",
-      "Contracts",
-      "EntryPrice",
-      "CurrentPrice",
-      "Notes",
-    ];
-    const body = (rows as any[])
-      .map((r) => [
-        r.ticker,
-        r.contract,
-        r.expiration,
-        r.strike,
-        r.type,
-        r.contracts,
-        r.entryPrice,
-        r.currentPrice,
-        r.notes,
-      ]
-        .map((x) => (x == null ? "" : String(x).replaceAll('"', "")))
-        .map((x) => `"${x}"`)
-        .join(","))
-      .join("\n");
-    return `${csvHeaders.join(",")}\n${body}`;
+  const refreshQuote = (row: any) => refreshQuotes([row]);
+  const refreshAllQuotes = () => refreshQuotes(rows as any[]);
+
+  const seedReplay = () => {
+    const prices = Object.fromEntries((computed.rows as any[]).map((r) => [quoteSymbol(r), numberOr(r.currentPrice, 0) || numberOr(r.theo, 0)]));
+    setReplay(JSON.stringify(seedSnapshot(prices), null, 2));
   };
 
+  // one <td> per table column (src/tableView.ts); multi-lot rows show the lot-derived fields read-only
+  const multiLot = (r: any) => r.lots?.length > 1;
+  const cells: Record<string, (r: any) => React.ReactNode> = {
+    ticker: (r) => <td className="px-3 py-2"><input className="w-20 border rounded-lg px-2 py-1" value={r.ticker} onChange={(e) => updateRow(r.id, { ticker: e.target.value })} /></td>,
+    underlying: (r) => <td className="px-3 py-2"><DecimalInput value={r.underlying} onChange={(v) => updateRow(r.id, { underlying: v })} decimals={2} /></td>,
+    contract: (r) => (
+      <td className="px-3 py-2 flex items-center gap-2">
+        <input
+          className="w-72 border rounded-lg px-2 py-1"
+          value={r.contract}
+          placeholder="CIFR251219C00015000 or CIFR Dec 19 2025 15C"
+          onChange={(e) => updateRow(r.id, { contract: e.target.value })}
+          onBlur={(e) => normalizeContract(r.id, e.target.value)}
+        />
+        <ContractBadge issues={contractIssues(r)} onFix={() => rebuildContract(r)} />
+        <button onClick={() => refreshQuote(r)} className="text-xs px-2 py-1 rounded-lg bg-emerald-50 text-emerald-700 border border-emerald-200 hover:bg-emerald-100">Sync</button>
+      </td>
+    ),
+    expiration: (r) => <td className="px-3 py-2"><input type="date" className="border rounded-lg px-2 py-1" value={r.expiration} onChange={(e) => updateRow(r.id, { expiration: e.target.value })} /></td>,
+    dte: (r) => <td className="px-3 py-2"><ExpiryBadge dte={r.dte} /></td>,
+    strike: (r) => <td className="px-3 py-2"><DecimalInput value={r.strike} onChange={(v) => updateRow(r.id, { strike: v })} decimals={2} /></td>,
+    type: (r) => <td className="px-3 py-2"><select className="border rounded-lg px-2 py-1" value={r.type} onChange={(e) => updateRow(r.id, { type: e.target.value })}><option value="C">C</option><option value="P">P</option></select></td>,
+    multiplier: (r) => <td className="px-3 py-2"><DecimalInput value={r.multiplier ?? ""} onChange={(v) => updateRow(r.id, { multiplier: v })} decimals={0} className="w-16" placeholder="100" /></td>,
+    exercise: (r) => <td className="px-3 py-2"><select className="border rounded-lg px-2 py-1" value={r.exercise} onChange={(e) => updateRow(r.id, { exercise: e.target.value })}><option value="american">American</option><option value="european">European</option></select></td>,
+    settlement: (r) => <td className="px-3 py-2"><select className="border rounded-lg px-2 py-1" value={r.settlement} onChange={(e) => updateRow(r.id, { settlement: e.target.value })}><option value="physical">Physical</option><option value="cash">Cash</option></select></td>,
+    currency: (r) => (
+      <td className="px-3 py-2">
+        <select className="border rounded-lg px-2 py-1" value={currencyOf(r)} onChange={(e) => updateRow(r.id, { currency: e.target.value })}>
+          {Array.from(new Set([...CURRENCIES, currencyOf(r)])).map((c) => (
+            <option key={c} value={c}>{c}</option>
+          ))}
+        </select>
+      </td>
+    ),
+    side: (r) => <td className="px-3 py-2"><select className={`border rounded-lg px-2 py-1 ${r.side === "short" ? "text-rose-700" : ""}`} value={r.side ?? "long"} onChange={(e) => updateRow(r.id, { side: e.target.value })}><option value="long">Buy</option><option value="short">Sell</option></select></td>,
+    contracts: (r) =>
+      multiLot(r) ? (
+        <td className="px-3 py-2 whitespace-nowrap">
+          {r.contracts} <button className="ml-1 text-xs text-slate-600 hover:underline" onClick={() => setLotsId(r.id)}>{r.lots.length} lots</button>
+        </td>
+      ) : (
+        <td className="px-3 py-2"><DecimalInput value={r.contracts} onChange={(v) => updateRow(r.id, { contracts: v })} decimals={0} /></td>
+      ),
+    openDate: (r) =>
+      multiLot(r) ? (
+        <td className="px-3 py-2 whitespace-nowrap">{r.openDate}</td>
+      ) : (
+        <td className="px-3 py-2"><input type="date" className="border rounded-lg px-2 py-1" value={r.openDate ?? ""} onChange={(e) => updateRow(r.id, { openDate: e.target.value })} /></td>
+      ),
+    entryPrice: (r) =>
+      multiLot(r) ? (
+        <td className="px-3 py-2 whitespace-nowrap" title="Weighted average of the lots">{r.entryPrice} avg</td>
+      ) : (
+        <td className="px-3 py-2"><DecimalInput value={r.entryPrice} onChange={(v) => updateRow(r.id, { entryPrice: v })} decimals={4} /></td>
+      ),
+    fees: (r) =>
+      multiLot(r) ? (
+        <td className="px-3 py-2 whitespace-nowrap">{currency(costBasis(r.lots).fees, r.currency)}</td>
+      ) : (
+        <td className="px-3 py-2"><DecimalInput value={r.fees ?? ""} onChange={(v) => updateRow(r.id, { fees: v })} decimals={2} className="w-20" placeholder={orderFee(feeSchedule, Math.abs(r.qty)).toFixed(2)} /></td>
+      ),
+    currentPrice: (r) => <td className="px-3 py-2"><DecimalInput value={r.currentPrice} onChange={(v) => updateRow(r.id, { currentPrice: v })} decimals={4} /></td>,
+    quote: (r) => <td className="px-3 py-2"><QuoteCell status={quotes[r.id]} now={clock} staleSec={staleSec} /></td>,
+    iv: (r) => (
+      <td className="px-3 py-2">
+        <DecimalInput value={r.iv} onChange={(v) => updateRow(r.id, { iv: v })} decimals={1} />
+        {r.iv === "" && <div className="text-xs text-slate-400 text-right">{Number.isFinite(r.modelIv) ? `implied ${(r.modelIv * 100).toFixed(1)}` : "—"}</div>}
+      </td>
+    ),
+    plusPrice: (r) => <td className="px-3 py-2 whitespace-nowrap">{currency(r.plusPrice, r.currency)}</td>,
+    minusPrice: (r) => <td className="px-3 py-2 whitespace-nowrap">{currency(r.minusPrice, r.currency)}</td>,
+    curValue: (r) => <td className="px-3 py-2 whitespace-nowrap">{currency(r.curValue, r.currency)}</td>,
+    plusValue: (r) => <td className="px-3 py-2 whitespace-nowrap">{currency(r.plusValue, r.currency)}</td>,
+    minusValue: (r) => <td className="px-3 py-2 whitespace-nowrap">{currency(r.minusValue, r.currency)}</td>,
+    unrealNow: (r) => <td className="px-3 py-2 whitespace-nowrap font-medium">{currency(r.unrealNow, r.currency)}</td>,
+    realizedPlus: (r) => <td className="px-3 py-2 whitespace-nowrap text-emerald-700 font-medium">{currency(r.realizedPlus, r.currency)}</td>,
+    realizedMinus: (r) => <td className="px-3 py-2 whitespace-nowrap text-rose-700 font-medium">{currency(r.realizedMinus, r.currency)}</td>,
+    breakevenStock: (r) => <td className="px-3 py-2 whitespace-nowrap">{Number.isFinite(r.breakevenStock) ? numberOr(r.breakevenStock).toFixed(2) : "—"}</td>,
+    scenUnderlying: (r) => <td className="px-3 py-2 whitespace-nowrap">{currency(scenarioUnderlying(r.ticker, numberOr(r.underlying, NaN), scenario), r.currency)}</td>,
+    scenPrice: (r) => <td className="px-3 py-2 whitespace-nowrap">{currency(r.scenPrice, r.currency)}</td>,
+    scenValue: (r) => <td className="px-3 py-2 whitespace-nowrap">{currency(r.scenValue, r.currency)}</td>,
+    scenPL: (r) => <td className={`px-3 py-2 whitespace-nowrap font-medium ${numberOr(r.scenPL) < 0 ? "text-rose-700" : "text-emerald-700"}`}>{currency(r.scenPL, r.currency)}</td>,
+    theo: (r) => <td className="px-3 py-2 whitespace-nowrap">{currency(r.theo, r.currency)}</td>,
+    delta: (r) => <td className="px-3 py-2 whitespace-nowrap">{fixed(r.delta, 1)}</td>,
+    gamma: (r) => <td className="px-3 py-2 whitespace-nowrap">{fixed(r.gamma, 2)}</td>,
+    theta: (r) => <td className="px-3 py-2 whitespace-nowrap">{currency(r.theta, r.currency)}</td>,
+    vega: (r) => <td className="px-3 py-2 whitespace-nowrap">{currency(r.vega, r.currency)}</td>,
+    rho: (r) => <td className="px-3 py-2 whitespace-nowrap">{currency(r.rho, r.currency)}</td>,
+    strategy: (r) => (
+      <td className="px-3 py-2">
+        <select className="border rounded-lg px-2 py-1 max-w-[12rem]" value={r.strategyId ?? ""} onChange={(e) => updateRow(r.id, { strategyId: e.target.value })}>
+          <option value="">—</option>
+          {strategies.map((s) => (
+            <option key={s.id} value={s.id}>{s.name}</option>
+          ))}
+        </select>
+      </td>
+    ),
+    notes: (r) => <td className="px-3 py-2"><input className="w-56 border rounded-lg px-2 py-1" value={r.notes} onChange={(e) => updateRow(r.id, { notes: e.target.value })} /></td>,
+  };
+
+  // CSV export: picked columns, computed values included as plain numbers
   const downloadCSV = () => {
-    const blob = new Blob([toCSV()], { type: "text/csv;charset=utf-8;" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `options_scenarios_${Date.now()}.csv`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    const csv = exportCSV(computed.rows as any[], csvColumnKeys, { pct, scenario }, csvDelimiter);
+    downloadFile(csv, `options_scenarios_${Date.now()}.csv`, "text/csv;charset=utf-8;");
+    setShowExport(false);
+  };
+
+  // ---------- workspace backup / share ----------
+  const downloadBackup = () =>
+    downloadFile(exportWorkspace({ version: SCHEMA_VERSION, activeId: active.id, portfolios, settings }), `options_workspace_${todayISO()}.json`, "application/json");
+
+  const uploadBackup = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const text = (e.target as FileReader).result;
+      if (typeof text !== "string") return;
+      const result = importWorkspace(text, apiKey);
+      setPendingRestore(result.ok ? { fileName: file.name, store: result.store, problems: [] } : { fileName: file.name, store: null, problems: result.problems });
+    };
+    reader.readAsText(file);
+  };
+
+  const confirmRestore = (store: Store) => {
+    lastRows.current = { portfolioId: "", rows: [] }; // a restore starts over: nothing to log, nothing to undo
+    setPortfolios(store.portfolios);
+    switchPortfolio(store.activeId);
+    const s = store.settings;
+    setPct(s.pct);
+    setRatePct(s.ratePct);
+    setScenario(s.scenario);
+    setProviderKey(s.providerKey);
+    setDataFeedUrl(s.dataFeedUrl);
+    setReplay(s.replay);
+    setPriceSource(s.priceSource);
+    setStaleSec(s.staleSec);
+    setAutoRefresh(s.autoRefresh);
+    setRefreshSec(s.refreshSec);
+    setCsvColumnKeys(s.csvColumns);
+    setCsvDelimiter(s.csvDelimiter);
+    setConcentrationPct(s.concentrationPct);
+    setFeeSchedule(s.feeSchedule);
+    setBaseCurrency(s.baseCurrency);
+    setFxRates(s.fxRates);
+    setTableLayout(s.tableLayout);
+    setQuotes({});
+    setPendingRestore(null);
+  };
+
+  const createShareLink = async () => {
+    const data = await encodeSnapshot(snapshotOf(active.name, rows, strategies, settings));
+    const url = `${window.location.origin}${window.location.pathname}${SHARE_PREFIX}${data}`;
+    let copied = false;
+    try {
+      await navigator.clipboard.writeText(url);
+      copied = true;
+    } catch {
+      // clipboard needs a secure context + permission; the link is still shown to copy by hand
+    }
+    setShareLink({ url, copied });
+  };
+
+  const saveSharedCopy = (snap: Snapshot) => {
+    const copy = copyOfSnapshot(snap);
+    const p = { ...newPortfolio(`${snap.name} (shared)`, copy.rows), strategies: copy.strategies };
+    setPortfolios((ps) => [...ps, p]);
+    switchPortfolio(p.id);
+    closeShared();
+  };
+
+  const closeShared = () => {
+    window.location.hash = "#/portfolio";
+    setRoute("portfolio");
   };
 
+  // nothing changes yet: the import preview detects the broker (src/brokers) and the user picks replace / append / merge
   const uploadCSV = (file: File) => {
     const reader = new FileReader();
     reader.onload = (e) => {
       const text = (e.target as FileReader).result as string;
       if (!text || typeof text !== "string") return;
-      const lines = text.split(/\r?\n/).filter(Boolean);
-      if (lines.length < 2) return;
-      const [, ...rest] = lines;
-      const parsed = rest.map((ln) => {
-        const cols = ln
-          .split(/,(?=(?:[^\"]*\"[^\"]*\")*[^\"]*$)/)
-          .map((s) => s.replace(/^\"|\"$/g, ""));
-        return {
-          id: crypto.randomUUID(),
-          ticker: cols[0] || "",
-          contract: cols[1] || "",
-          expiration: cols[2] || "",
-          strike: cols[3] || "",
-          type: (cols[4] || "C").toUpperCase() === "P" ? "P" : "C",
-          contracts: cols[5] || "",
-          entryPrice: cols[6] || "",
-          currentPrice: cols[7] || "",
-          notes: cols[8] || "",
-        };
-      });
-      setRows(parsed);
+      setPendingImport({ text, fileName: file.name });
     };
     reader.readAsText(file);
   };
 
+  const confirmImport = (positions: ImportedPosition[], mode: MergeMode, source: string) => {
+    const incoming = positions.map((p) => positionToRow(p, emptyRow(), source));
+    changeSource.current = "import";
+    setRows((r: any[]) => mergeRows(r, incoming, mode, feeSchedule));
+    setPendingImport(null);
+  };
+
   return (
     <div className="min-h-screen bg-slate-50 text-slate-800 p-6">
       <div className="max-w-7xl mx-auto">
         <header className="mb-4">
           <h1 className="text-2xl sm:text-3xl font-bold">Options Scenario Calculator</h1>
-          <p className="text-slate-600 mt-1">Add options and see +{pct}% / -{pct}% premium scenarios and realized gains.</p>
-          <Nav route={route} setRoute={setRoute} />
+          <p className="text-slate-600 mt-1">Add options and see how they reprice when the underlying moves, plus +{pct}% / -{pct}% premium scenarios and realized gains.</p>
+          <Nav route={route} setRoute={setRoute} badges={{ alerts: unseenAlerts, calendar: expiredCount }} />
+          <PortfolioSwitcher
+            portfolios={portfolios.map((p) => ({ id: p.id, name: p.name, rows: p.rows.length }))}
+            activeId={active.id}
+            onSwitch={switchPortfolio}
+            onCreate={createPortfolio}
+            onRename={renamePortfolio}
+            onDelete={deletePortfolio}
+          />
+          {(storageNotices.length > 0 || saveError) && (
+            <div className="bg-amber-50 border border-amber-200 text-amber-800 rounded-2xl p-3 text-sm flex gap-3">
+              <ul className="space-y-1">
+                {storageNotices.map((n) => (
+                  <li key={n}>{n}</li>
+                ))}
+                {saveError && <li>Changes could not be saved: {saveError}</li>}
+              </ul>
+              {storageNotices.length > 0 && <button className="ml-auto self-start hover:underline" onClick={() => setStorageNotices([])}>Dismiss</button>}
+            </div>
+          )}
         </header>
 
-        {route === "portfolio" ? (
+        {shareData ? (
+          shared === null ? (
+            <div className="text-sm text-slate-500">Opening shared snapshot…</div>
+          ) : shared === "invalid" ? (
+            <section className="bg-white rounded-2xl shadow p-4 space-y-3">
+              <div className="text-rose-700">This share link is damaged or incomplete, so the snapshot can't be opened.</div>
+              <button onClick={closeShared} className="px-4 py-2 rounded-2xl bg-white border shadow hover:bg-slate-100">Back to my portfolio</button>
+            </section>
+          ) : (
+            <SharedView snapshot={shared} onSave={() => saveSharedCopy(shared)} onClose={closeShared} />
+          )
+        ) : route === "portfolio" ? (
           <>
-            <div className="flex items-center gap-3 mb-4">
+            <div className="flex flex-wrap items-center gap-3 mb-4">
               <div className="bg-white rounded-2xl shadow p-3 flex items-center gap-2">
                 <label className="text-sm text-slate-600">Scenario %</label>
                 <input
@@ -384,81 +1032,393 @@ export default function App() {
                   className="w-20 border rounded-xl px-3 py-2 text-right"
                 />
               </div>
+              <div className="bg-white rounded-2xl shadow p-3 flex items-center gap-2">
+                <label className="text-sm text-slate-600">Risk-free %</label>
+                <input
+                  type="number"
+                  value={ratePct}
+                  min={0}
+                  max={20}
+                  step={0.25}
+                  onChange={(e) => setRatePct(numberOr(e.target.value, 0))}
+                  className="w-20 border rounded-xl px-3 py-2 text-right"
+                />
+              </div>
+              <div className="bg-white rounded-2xl shadow p-3 flex items-center gap-2" title="Default fees: used for rows with blank Fees $ and to estimate the cost of closing">
+                <label className="text-sm text-slate-600">Fees $</label>
+                {[
+                  { key: "perContract" as const, label: "/ contract" },
+                  { key: "perOrder" as const, label: "/ order" },
+                  { key: "minPerOrder" as const, label: "min" },
+                ].map((f) => (
+                  <label key={f.key} className="flex items-center gap-1 text-sm text-slate-600">
+                    <input
+                      type="number"
+                      value={feeSchedule[f.key]}
+                      min={0}
+                      step={0.01}
+                      onChange={(e) => setFeeSchedule({ ...feeSchedule, [f.key]: Math.max(0, numberOr(e.target.value, 0)) })}
+                      className="w-20 border rounded-xl px-3 py-2 text-right"
+                    />
+                    {f.label}
+                  </label>
+                ))}
+              </div>
+              <div className="bg-white rounded-2xl shadow p-3 flex flex-wrap items-center gap-2" title="Totals are converted into the base currency; rates are USD per unit">
+                <label className="text-sm text-slate-600">Base</label>
+                <select className="border rounded-xl px-3 py-2" value={baseCurrency} onChange={(e) => setBaseCurrency(e.target.value)}>
+                  {CURRENCIES.map((c) => (
+                    <option key={c} value={c}>{c}</option>
+                  ))}
+                </select>
+                {fxCodes.map((c) => (
+                  <label key={c} className="flex items-center gap-1 text-sm text-slate-600">
+                    1 {c} =
+                    <input
+                      type="number"
+                      value={fxRates[c] ?? ""}
+                      min={0}
+                      step={0.0001}
+                      onChange={(e) => {
+                        const n = numberOr(e.target.value, 0);
+                        const next = { ...fxRates };
+                        if (n > 0) next[c] = n;
+                        else delete next[c];
+                        setFxRates(next);
+                      }}
+                      className={`w-24 border rounded-xl px-3 py-2 text-right ${computed.missing.includes(c) ? "border-amber-400" : ""}`}
+                    />
+                    USD
+                  </label>
+                ))}
+              </div>
+              <button
+                onClick={() => undoRedo("undo")}
+                disabled={!undoStack.past.length}
+                title={undoStack.past.length ? `Undo ${undoStack.past[undoStack.past.length - 1].label} (Ctrl+Z)` : "Nothing to undo"}
+                className="px-4 py-2 rounded-2xl bg-white border shadow hover:bg-slate-100 disabled:opacity-40"
+              >
+                Undo
+              </button>
+              <button
+                onClick={() => undoRedo("redo")}
+                disabled={!undoStack.future.length}
+                title={undoStack.future.length ? `Redo ${undoStack.future[undoStack.future.length - 1].label} (Ctrl+Shift+Z)` : "Nothing to redo"}
+                className="px-4 py-2 rounded-2xl bg-white border shadow hover:bg-slate-100 disabled:opacity-40"
+              >
+                Redo
+              </button>
               <button onClick={addRow} className="px-4 py-2 rounded-2xl bg-black text-white shadow hover:opacity-90">Add Row</button>
-              <button onClick={downloadCSV} className="px-4 py-2 rounded-2xl bg-white border shadow hover:bg-slate-100">Export CSV</button>
-              <label className="px-4 py-2 rounded-2xl bg-white border shadow hover:bg-slate-100 cursor-pointer">Import CSV<input type="file" accept=".csv" className="hidden" onChange={(e) => e.target.files?.[0] && uploadCSV(e.target.files[0])} /></label>
+              <button onClick={() => setShowNewStrategy((v) => !v)} className="px-4 py-2 rounded-2xl bg-white border shadow hover:bg-slate-100">New Strategy</button>
+              <button onClick={() => setShowExport((v) => !v)} className="px-4 py-2 rounded-2xl bg-white border shadow hover:bg-slate-100">Export CSV</button>
+              <label className="px-4 py-2 rounded-2xl bg-white border shadow hover:bg-slate-100 cursor-pointer">Import CSV<input type="file" accept=".csv,.txt" className="hidden" onChange={(e) => { e.target.files?.[0] && uploadCSV(e.target.files[0]); e.target.value = ""; }} /></label>
+              <button onClick={downloadBackup} className="px-4 py-2 rounded-2xl bg-white border shadow hover:bg-slate-100">Backup JSON</button>
+              <label className="px-4 py-2 rounded-2xl bg-white border shadow hover:bg-slate-100 cursor-pointer">Restore JSON<input type="file" accept=".json,application/json" className="hidden" onChange={(e) => { e.target.files?.[0] && uploadBackup(e.target.files[0]); e.target.value = ""; }} /></label>
+              <button onClick={createShareLink} className="px-4 py-2 rounded-2xl bg-white border shadow hover:bg-slate-100">Share Link</button>
             </div>
 
-            <SummaryBar pct={pct} totals={computed.totals as any} />
+            {shareLink && (
+              <section className="bg-white rounded-2xl shadow p-4 mb-6 flex flex-wrap items-center gap-3">
+                <div className="text-sm text-slate-600">{shareLink.copied ? "Copied to the clipboard:" : "Copy this link:"}</div>
+                <input readOnly className="flex-1 min-w-[16rem] border rounded-xl px-3 py-2 font-mono text-xs" value={shareLink.url} onFocus={(e) => e.target.select()} />
+                <div className="text-xs text-slate-500">{shareLink.url.length.toLocaleString()} characters, read-only snapshot of {active.name}</div>
+                <button className="text-sm text-slate-600 hover:underline" onClick={() => setShareLink(null)}>Close</button>
+              </section>
+            )}
+
+            {pendingRestore && (
+              <section className="bg-white rounded-2xl shadow p-4 mb-6 space-y-3">
+                <div className="font-semibold">Restore {pendingRestore.fileName}</div>
+                {pendingRestore.store ? (
+                  <div className="text-sm text-slate-600">
+                    {describeWorkspace(pendingRestore.store)}. Restoring replaces every portfolio, journal and setting in this browser (the API key is kept).
+                  </div>
+                ) : (
+                  <ul className="text-sm text-rose-700 list-disc ml-5">
+                    {pendingRestore.problems.map((p) => (
+                      <li key={p}>{p}</li>
+                    ))}
+                  </ul>
+                )}
+                <div className="flex gap-3">
+                  {pendingRestore.store && (
+                    <button onClick={() => confirmRestore(pendingRestore.store as Store)} className="px-4 py-2 rounded-2xl bg-rose-600 text-white shadow hover:opacity-90">Replace workspace</button>
+                  )}
+                  <button onClick={() => setPendingRestore(null)} className="px-4 py-2 rounded-2xl bg-white border shadow hover:bg-slate-100">Cancel</button>
+                </div>
+              </section>
+            )}
+
+            {showExport && (
+              <ExportDialog
+                selected={csvColumnKeys}
+                delimiter={csvDelimiter}
+                ctx={{ pct, scenario }}
+                rowCount={rows.length}
+                onSelect={setCsvColumnKeys}
+                onDelimiter={setCsvDelimiter}
+                onDownload={downloadCSV}
+                onCancel={() => setShowExport(false)}
+              />
+            )}
+
+            {pendingImport && (
+              <ImportDialog
+                key={pendingImport.text.length + pendingImport.fileName}
+                text={pendingImport.text}
+                fileName={pendingImport.fileName}
+                existingCount={rows.length}
+                onCancel={() => setPendingImport(null)}
+                onConfirm={confirmImport}
+              />
+            )}
+
+            <ScenarioPanel scenario={scenario} setScenario={setScenario} tickers={tickers} />
+
+            <SummaryBar pct={pct} scenarioLabel={describeScenario(scenario)} totals={computed.totals as Totals} code={baseCurrency} missing={computed.missing} />
+
+            {showNewStrategy && (
+              <NewStrategyForm defaultTicker={tickers[0] ?? ""} onCreate={createStrategy} onCancel={() => setShowNewStrategy(false)} />
+            )}
+
+            <StrategyList items={strategySummaries} onRename={renameStrategy} onUngroup={ungroupStrategy} onChart={(id) => setChartKey(`strategy:${id}`)} />
+
+            <TableToolbar
+              layout={tableLayout}
+              onLayout={setTableLayout}
+              filter={tableFilter}
+              onFilter={setTableFilter}
+              shown={tableGroups.reduce((n, g) => n + g.rows.length, 0)}
+              total={rows.length}
+              pct={pct}
+            />
+            <BulkActions
+              count={selectedRows.length}
+              onDelete={() => {
+                setRows((r: any[]) => r.filter((x) => !selected.includes(x.id)));
+                setSelected([]);
+              }}
+              onSync={() => refreshQuotes(selectedRows)}
+              onClose={closeSelected}
+              onClear={() => setSelected([])}
+            />
 
             <div className="overflow-auto rounded-2xl border bg-white shadow">
-              <table className="min-w-[1280px] w-full">
+              <table className="w-full min-w-max">
                 <thead className="bg-slate-100">
                   <tr>
-                    {headers.map((h) => (
-                      <th key={h} className="text-left text-sm font-semibold text-slate-700 px-3 py-3 whitespace-nowrap">{h}</th>
+                    <th className="px-3 py-3">
+                      <input type="checkbox" title="Select all shown" checked={shownIds.length > 0 && shownIds.every((id) => selected.includes(id))} onChange={(e) => selectRows(shownIds, e.target.checked)} />
+                    </th>
+                    {tableLayout.columns.map((key) => (
+                      <th key={key} className="text-left text-sm font-semibold text-slate-700 px-3 py-3 whitespace-nowrap">
+                        <button className="hover:underline" onClick={() => setTableLayout({ ...tableLayout, ...nextSort(tableLayout, key) })}>
+                          {columnByKey.get(key)?.header(pct)}
+                          {tableLayout.sortKey === key && (tableLayout.sortDir === "asc" ? " ▲" : " ▼")}
+                        </button>
+                      </th>
                     ))}
+                    <th className="px-3 py-3" />
                   </tr>
                 </thead>
                 <tbody>
-                  {(computed.rows as any[]).map((r) => (
-                    <tr key={r.id} className="border-t hover:bg-slate-50">
-                      <td className="px-3 py-2"><input className="w-20 border rounded-lg px-2 py-1" value={r.ticker} onChange={(e) => updateRow(r.id, { ticker: e.target.value })} /></td>
-                      <td className="px-3 py-2 flex items-center gap-2">
-                        <input className="w-72 border rounded-lg px-2 py-1" value={r.contract} onChange={(e) => updateRow(r.id, { contract: e.target.value })} />
-                        <button onClick={() => refreshQuote(r.id, r.contract)} className="text-xs px-2 py-1 rounded-lg bg-emerald-50 text-emerald-700 border border-emerald-200 hover:bg-emerald-100">Sync</button>
-                      </td>
-                      <td className="px-3 py-2"><input type="date" className="border rounded-lg px-2 py-1" value={r.expiration} onChange={(e) => updateRow(r.id, { expiration: e.target.value })} /></td>
-                      <td className="px-3 py-2"><DecimalInput value={r.strike} onChange={(v) => updateRow(r.id, { strike: v })} decimals={2} /></td>
-                      <td className="px-3 py-2"><select className="border rounded-lg px-2 py-1" value={r.type} onChange={(e) => updateRow(r.id, { type: e.target.value })}><option value="C">C</option><option value="P">P</option></select></td>
-                      <td className="px-3 py-2"><DecimalInput value={r.contracts} onChange={(v) => updateRow(r.id, { contracts: v })} decimals={0} /></td>
-                      <td className="px-3 py-2"><DecimalInput value={r.entryPrice} onChange={(v) => updateRow(r.id, { entryPrice: v })} decimals={4} /></td>
-                      <td className="px-3 py-2"><DecimalInput value={r.currentPrice} onChange={(v) => updateRow(r.id, { currentPrice: v })} decimals={4} /></td>
-                      <td className="px-3 py-2 whitespace-nowrap">{currency(r.plusPrice)}</td>
-                      <td className="px-3 py-2 whitespace-nowrap">{currency(r.minusPrice)}</td>
-                      <td className="px-3 py-2 whitespace-nowrap">{currency(r.curValue)}</td>
-                      <td className="px-3 py-2 whitespace-nowrap">{currency(r.plusValue)}</td>
-                      <td className="px-3 py-2 whitespace-nowrap">{currency(r.minusValue)}</td>
-                      <td className="px-3 py-2 whitespace-nowrap font-medium">{currency(r.unrealNow)}</td>
-                      <td className="px-3 py-2 whitespace-nowrap text-emerald-700 font-medium">{currency(r.realizedPlus)}</td>
-                      <td className="px-3 py-2 whitespace-nowrap text-rose-700 font-medium">{currency(r.realizedMinus)}</td>
-                      <td className="px-3 py-2 whitespace-nowrap">{Number.isFinite(r.breakevenStock) ? numberOr(r.breakevenStock).toFixed(2) : "—"}</td>
-                      <td className="px-3 py-2"><input className="w-56 border rounded-lg px-2 py-1" value={r.notes} onChange={(e) => updateRow(r.id, { notes: e.target.value })} /></td>
-                      <td className="px-3 py-2"><button className="text-rose-600 hover:underline" onClick={() => removeRow(r.id)}>Remove</button></td>
-                    </tr>
+                  {tableGroups.map((g) => (
+                    <React.Fragment key={g.key}>
+                      {tableLayout.groupBy && (
+                        <tr className="border-t bg-slate-50 font-semibold text-sm">
+                          <td className="px-3 py-2">
+                            <input type="checkbox" title="Select group" checked={g.rows.every((r: any) => selected.includes(r.id))} onChange={(e) => selectRows(g.rows.map((r: any) => r.id), e.target.checked)} />
+                          </td>
+                          {tableLayout.columns.map((key, i) => {
+                            const c = columnByKey.get(key);
+                            const sub = subtotals(g.rows)[key];
+                            return (
+                              <td key={key} className="px-3 py-2 whitespace-nowrap">
+                                {i === 0
+                                  ? `${g.key || (tableLayout.groupBy === "ticker" ? "No ticker" : "No date")} · ${g.rows.length}`
+                                  : c?.total === "money"
+                                    ? currency(sub, baseCurrency)
+                                    : c?.total === "shares"
+                                      ? fixed(sub, key === "gamma" ? 2 : 1)
+                                      : null}
+                              </td>
+                            );
+                          })}
+                          <td />
+                        </tr>
+                      )}
+                      {g.rows.map((r: any) => (
+                        <tr key={r.id} className={`border-t hover:bg-slate-50 ${selected.includes(r.id) ? "bg-sky-50" : ""}`}>
+                          <td className="px-3 py-2"><input type="checkbox" checked={selected.includes(r.id)} onChange={(e) => selectRows([r.id], e.target.checked)} /></td>
+                          {tableLayout.columns.map((key) => (
+                            <React.Fragment key={key}>{cells[key]?.(r)}</React.Fragment>
+                          ))}
+                          <td className="px-3 py-2 whitespace-nowrap space-x-3">
+                            <button className="text-slate-700 hover:underline" onClick={() => setChartKey(`row:${r.id}`)}>Chart</button>
+                            <button className="text-slate-700 hover:underline" onClick={() => setLotsId(r.id)}>Lots</button>
+                            <button className="text-slate-700 hover:underline" onClick={() => setHistoryId(r.id)}>History</button>
+                            <button className="text-slate-700 hover:underline" onClick={() => setClosingId(r.id)}>Close</button>
+                            <button className="text-rose-600 hover:underline" onClick={() => removeRow(r.id)}>Remove</button>
+                          </td>
+                        </tr>
+                      ))}
+                    </React.Fragment>
                   ))}
                 </tbody>
               </table>
             </div>
+
+            {closingId && (rows as any[]).some((r) => r.id === closingId) && (
+              <ClosePositionForm
+                key={closingId}
+                row={(rows as any[]).find((r) => r.id === closingId)}
+                lots={rowLots((rows as any[]).find((r) => r.id === closingId), feeSchedule)}
+                schedule={feeSchedule}
+                onClose={(req) => closePosition((rows as any[]).find((r) => r.id === closingId), req)}
+                onCancel={() => setClosingId(null)}
+              />
+            )}
+
+            {lotsId && (rows as any[]).some((r) => r.id === lotsId) && (
+              <LotsEditor
+                contract={(rows as any[]).find((r) => r.id === lotsId).contract}
+                lots={rowLots((rows as any[]).find((r) => r.id === lotsId), feeSchedule)}
+                schedule={feeSchedule}
+                onChange={(lots: Lot[]) => updateRow(lotsId, lotFields(lots))}
+                onDone={() => setLotsId(null)}
+              />
+            )}
+
+            {historyId && (rows as any[]).some((r) => r.id === historyId) && (
+              <RowHistory
+                contract={(rows as any[]).find((r) => r.id === historyId).contract}
+                changes={active.history[historyId] ?? []}
+                onDone={() => setHistoryId(null)}
+              />
+            )}
+
+            {chartKey && (
+              <section className="bg-white rounded-2xl shadow p-4 mt-6">
+                <div className="flex items-center gap-3 mb-3">
+                  <div className="text-sm text-slate-600">Payoff for</div>
+                  <select className="border rounded-lg px-2 py-1" value={chartKey} onChange={(e) => setChartKey(e.target.value)}>
+                    {(rows as any[]).map((r) => (
+                      <option key={r.id} value={`row:${r.id}`}>{r.contract || r.ticker}</option>
+                    ))}
+                    {tickers.map((t) => (
+                      <option key={t} value={`ticker:${t}`}>{t} — all legs</option>
+                    ))}
+                    {strategies.map((s) => (
+                      <option key={s.id} value={`strategy:${s.id}`}>{s.name}</option>
+                    ))}
+                  </select>
+                  <button className="ml-auto text-sm text-slate-600 hover:underline" onClick={() => setChartKey(null)}>Close</button>
+                </div>
+                {chart ? (
+                  <PayoffChart legs={chart.legs} rate={ratePct / 100} spot={chart.spot} title={chart.title} code={chart.code} />
+                ) : (
+                  <div className="text-sm text-slate-500">Nothing to chart.</div>
+                )}
+              </section>
+            )}
           </>
+        ) : route === "journal" ? (
+          <JournalPage entries={journal} baseCurrency={baseCurrency} fxRates={fxRates} onDelete={(id) => setJournal((j) => j.filter((e) => e.id !== id))} />
+        ) : route === "calendar" ? (
+          <CalendarPage
+            rows={computed.rows as any[]}
+            rate={ratePct / 100}
+            now={clock}
+            baseCurrency={baseCurrency}
+            onClose={(id) => {
+              setClosingId(id);
+              setRoute("portfolio");
+              window.location.hash = "#/portfolio";
+            }}
+          />
+        ) : route === "risk" ? (
+          <RiskPage rows={computed.rows as any[]} rate={ratePct / 100} now={clock} limitPct={concentrationPct} baseCurrency={baseCurrency} onLimit={setConcentrationPct} />
+        ) : route === "alerts" ? (
+          <AlertsPage
+            rules={alertRules}
+            log={alertLog}
+            rows={(rows as any[]).map((r) => ({ id: r.id, label: r.contract || r.ticker || "Untitled row", currency: currencyOf(r) }))}
+            baseCurrency={baseCurrency}
+            permission={notifyPermission}
+            onAdd={(rule) => setAlertRules((a) => [...a, rule])}
+            onToggle={(id) => setAlertRules((a) => a.map((r) => (r.id === id ? { ...r, enabled: !r.enabled } : r)))}
+            onDelete={(id) => setAlertRules((a) => a.filter((r) => r.id !== id))}
+            onClearLog={() => setAlertLog([])}
+            onEnableNotifications={enableNotifications}
+          />
         ) : (
           <section className="grid lg:grid-cols-2 gap-4 mb-6">
             <div className="bg-white rounded-2xl shadow p-4 space-y-3">
               <div className="font-semibold">Live Data Settings</div>
-              <p className="text-sm text-slate-600">Provide an endpoint that returns <code>{`{ last: 1.23 }`}</code> for a given option <em>contract</em> text.</p>
-              <div className="grid sm:grid-cols-2 gap-3">
-                <div>
-                  <label className="text-xs text-slate-500">Endpoint URL</label>
-                  <input className="w-full border rounded-xl px-3 py-2" placeholder="https://api.yourprovider.com/optionquote" value={dataFeedUrl} onChange={(e) => setDataFeedUrl(e.target.value)} />
+              <div>
+                <label className="text-xs text-slate-500">Provider</label>
+                <select className="w-full border rounded-xl px-3 py-2" value={providerKey} onChange={(e) => setProviderKey(e.target.value)}>
+                  {quoteProviders.map((p) => (
+                    <option key={p.key} value={p.key}>{p.label}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-slate-500 mt-1"><code>{provider.hint}</code></p>
+              </div>
+              {provider.needsUrl ? (
+                <div className="grid sm:grid-cols-2 gap-3">
+                  <div>
+                    <label className="text-xs text-slate-500">Endpoint URL</label>
+                    <input className="w-full border rounded-xl px-3 py-2" placeholder="https://api.yourprovider.com/optionquote" value={dataFeedUrl} onChange={(e) => setDataFeedUrl(e.target.value)} />
+                  </div>
+                  <div>
+                    <label className="text-xs text-slate-500">API Key (optional)</label>
+                    <input className="w-full border rounded-xl px-3 py-2" placeholder="sk_..." value={apiKey} onChange={(e) => setApiKey(e.target.value)} />
+                    <label className="flex items-center gap-2 text-xs text-slate-500 mt-1">
+                      <input type="checkbox" checked={rememberApiKey} onChange={(e) => setRememberApiKey(e.target.checked)} /> Remember on this device (stored unencrypted in the browser)
+                    </label>
+                  </div>
                 </div>
+              ) : (
                 <div>
-                  <label className="text-xs text-slate-500">API Key (optional)</label>
-                  <input className="w-full border rounded-xl px-3 py-2" placeholder="sk_..." value={apiKey} onChange={(e) => setApiKey(e.target.value)} />
+                  <div className="flex items-center">
+                    <label className="text-xs text-slate-500">Replay data (JSON)</label>
+                    <button onClick={seedReplay} className="ml-auto text-xs text-slate-700 hover:underline">Seed from portfolio</button>
+                  </div>
+                  <textarea className="w-full h-40 border rounded-xl px-3 py-2 font-mono text-xs" placeholder='{ "CIFR251219C00015000": { "bid": 1.1, "ask": 1.2, "last": 1.15 } }' value={replay} onChange={(e) => setReplay(e.target.value)} />
                 </div>
+              )}
+              <div className="flex flex-wrap items-center gap-3">
+                <label className="text-sm text-slate-600">Current $ from</label>
+                <select className="border rounded-xl px-3 py-2" value={priceSource} onChange={(e) => setPriceSource(e.target.value as PriceSource)}>
+                  <option value="mid">Mid (bid/ask)</option>
+                  <option value="last">Last trade</option>
+                </select>
+                <label className="text-sm text-slate-600">Stale after</label>
+                <input type="number" min={5} className="w-20 border rounded-xl px-3 py-2 text-right" value={staleSec} onChange={(e) => setStaleSec(numberOr(e.target.value, 60))} /><span className="text-sm text-slate-600">sec</span>
               </div>
               <div className="flex items-center gap-3">
                 <button onClick={refreshAllQuotes} className="px-4 py-2 rounded-2xl bg-emerald-600 text-white shadow hover:opacity-90">Refresh All</button>
                 <label className="flex items-center gap-2 text-sm"><input type="checkbox" checked={autoRefresh} onChange={(e) => setAutoRefresh(e.target.checked)} /> Auto-refresh</label>
                 <input type="number" min={5} className="w-20 border rounded-xl px-3 py-2 text-right" value={refreshSec} onChange={(e) => setRefreshSec(numberOr(e.target.value, 15))} /><span className="text-sm text-slate-600">sec</span>
               </div>
+              {quoteRun && (
+                <div className={`text-sm ${quoteRun.failed ? "text-rose-600" : "text-slate-600"}`}>
+                  {quoteRun.busy
+                    ? "Refreshing…"
+                    : `${new Date(quoteRun.at).toLocaleTimeString()}: ${quoteRun.ok} quoted${quoteRun.failed ? `, ${quoteRun.failed} failed (see the Quote column)` : ""}`}
+                </div>
+              )}
               <p className="text-xs text-slate-500">TradingView widgets are great for underlying charts, but they don't expose an options-quote API from the browser. Use a data provider or broker API here.</p>
             </div>
 
             <div className="bg-white rounded-2xl shadow p-4">
               <div className="text-sm text-slate-600">How it works</div>
               <ul className="list-disc ml-5 text-sm text-slate-600 space-y-1 mt-2">
-                <li>We call your endpoint with <code>?contract=</code> plus the Contract text from your table.</li>
-                <li>Your endpoint returns <code>{`{ last: number }`}</code>. We place that into <em>Current $</em>.</li>
+                <li>Rows are quoted by the OCC symbol built from their fields (e.g. <code>CIFR251219C00015000</code>).</li>
+                <li>Single-contract endpoints get <code>?contract=</code> per row; batch endpoints get <code>?contracts=</code> with up to 50 symbols per call.</li>
+                <li>Responses may carry <code>bid</code>, <code>ask</code>, <code>last</code> and <code>time</code>; mid or last (your choice) goes into <em>Current $</em>.</li>
+                <li>The Quote column shows each row's market, when it was quoted, a stale badge and the last fetch error.</li>
+                <li>Mock / replay answers from pasted JSON so everything works offline; an array of snapshots plays back one per refresh.</li>
                 <li>Turn on Auto-refresh to update on an interval while the Live Data page is open.</li>
               </ul>
             </div>
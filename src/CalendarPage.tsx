@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from "react";
+import { multiplierOf } from "./contractSpec";
+import { decayTimeline, DecayPoint, expiryStatus, ExpiryStatus, groupByExpiryWeek } from "./expiry";
+import { currency, numberOr } from "./format";
+
+/**
+ * Expiry calendar (#/calendar): positions grouped by expiration week, earliest first.
+ * - Expired positions are listed on top with a Close action (the journal close form offers expired / assigned).
+ * - Each position can show its value day by day to expiry at today's underlying and constant IV.
+ */
+
+const STATUS: Record<ExpiryStatus, { label: (dte: number) => string; tone: string }> = {
+  unknown: { label: () => "no date", tone: "bg-slate-50 text-slate-500 border-slate-200" },
+  expired: { label: (d) => `expired ${-d}d ago`, tone: "bg-rose-50 text-rose-700 border-rose-200" },
+  today: { label: () => "expires today", tone: "bg-rose-50 text-rose-700 border-rose-200" },
+  soon: { label: (d) => `${d}d`, tone: "bg-amber-50 text-amber-700 border-amber-200" },
+  open: { label: (d) => `${d}d`, tone: "bg-slate-50 text-slate-600 border-slate-200" },
+};
+
+export function ExpiryBadge({ dte }: { dte: number }) {
+  const s = STATUS[expiryStatus(dte)];
+  return <span className={`text-xs px-2 py-1 rounded-lg border whitespace-nowrap ${s.tone}`}>{s.label(dte)}</span>;
+}
+
+const weekLabel = (week: string) => {
+  if (!week) return "No expiration date";
+  const [y, m, d] = week.split("-").map(Number);
+  return `Week of ${new Date(y, m - 1, d).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" })}`;
+};
+
+function Sparkline({ points }: { points: DecayPoint[] }) {
+  if (points.length < 2) return null;
+  const ys = points.map((p) => p.value);
+  const lo = Math.min(0, ...ys);
+  const hi = Math.max(0, ...ys);
+  const sx = (i: number) => (i / (points.length - 1)) * 120;
+  const sy = (v: number) => 28 - ((v - lo) / (hi - lo || 1)) * 24;
+  const d = points.map((p, i) => `${i ? "L" : "M"}${sx(i).toFixed(1)},${sy(p.value).toFixed(1)}`).join("");
+  return (
+    <svg width={124} height={32} viewBox="-2 0 124 32" className="text-slate-700">
+      <line x1={0} x2={120} y1={sy(0)} y2={sy(0)} stroke="#cbd5e1" />
+      <path d={d} fill="none" stroke="currentColor" strokeWidth={1.5} />
+    </svg>
+  );
+}
+
+function Timeline({ points, code }: { points: DecayPoint[]; code: string }) {
+  if (!points.length) return <div className="text-sm text-slate-500">Needs an underlying price, strike and IV (typed or implied from Current $) to project.</div>;
+  const start = points[0].value;
+  return (
+    <div className="max-h-72 overflow-auto">
+      <table className="text-sm">
+        <thead>
+          <tr className="text-slate-500">
+            {["Date", "DTE", "Price", "Value", "Change"].map((h) => (
+              <th key={h} className="text-left font-normal px-3 py-1">{h}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {points.map((p) => (
+            <tr key={p.day} className="border-t">
+              <td className="px-3 py-1 whitespace-nowrap">{p.date}</td>
+              <td className="px-3 py-1">{p.dte}</td>
+              <td className="px-3 py-1">{currency(p.price, code)}</td>
+              <td className="px-3 py-1">{currency(p.value, code)}</td>
+              <td className={`px-3 py-1 ${p.value - start < 0 ? "text-rose-700" : "text-emerald-700"}`}>{currency(p.value - start, code)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// rows are computed rows (dte, qty, modelIv, curValue, theta, fx from computePortfolio in src/core.ts); week totals are in the base currency
+export function CalendarPage({
+  rows,
+  rate,
+  now,
+  baseCurrency,
+  onClose,
+}: {
+  rows: any[];
+  rate: number;
+  now: number;
+  baseCurrency: string;
+  onClose: (id: string) => void;
+}) {
+  const [open, setOpen] = useState<string | null>(null);
+  const expired = rows.filter((r) => expiryStatus(r.dte) === "expired");
+  const groups = useMemo(() => groupByExpiryWeek(rows.filter((r) => expiryStatus(r.dte) !== "expired")), [rows]);
+  const timelines = useMemo(
+    () =>
+      new Map(
+        rows.map((r) => [
+          r.id,
+          decayTimeline(
+            { underlying: numberOr(r.underlying, NaN), strike: numberOr(r.strike, NaN), type: r.type === "P" ? "P" : "C", expiration: r.expiration, iv: r.modelIv, rate, contracts: r.qty, multiplier: multiplierOf(r) },
+            now
+          ),
+        ])
+      ),
+    [rows, rate, now]
+  );
+  const label = (r: any) => r.contract || r.ticker || "Untitled row";
+
+  return (
+    <div className="space-y-6">
+      {expired.length > 0 && (
+        <section className="bg-rose-50 border border-rose-200 rounded-2xl p-4 space-y-2">
+          <div className="font-semibold text-rose-800">
+            {expired.length} expired position{expired.length === 1 ? "" : "s"} still open — close or roll {expired.length === 1 ? "it" : "them"}
+          </div>
+          <ul className="text-sm space-y-1">
+            {expired.map((r) => (
+              <li key={r.id} className="flex items-center gap-3">
+                <span className="min-w-[14rem]">{label(r)}</span>
+                <ExpiryBadge dte={r.dte} />
+                <button className="text-slate-700 hover:underline" onClick={() => onClose(r.id)}>Close…</button>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {groups.map((g) => {
+        const value = g.rows.reduce((n, r) => n + numberOr(r.curValue * r.fx, 0), 0);
+        const theta = g.rows.reduce((n, r) => n + numberOr(r.theta * r.fx, 0), 0);
+        return (
+          <section key={g.week} className="bg-white rounded-2xl shadow p-4">
+            <div className="flex flex-wrap items-baseline gap-3 mb-2">
+              <div className="font-semibold">{weekLabel(g.week)}</div>
+              <div className="text-sm text-slate-500">
+                {g.rows.length} position{g.rows.length === 1 ? "" : "s"} · value {currency(value, baseCurrency)} · theta {currency(theta, baseCurrency)}/day
+              </div>
+            </div>
+            <ul className="divide-y">
+              {g.rows.map((r) => {
+                const points = timelines.get(r.id) ?? [];
+                return (
+                  <li key={r.id} className="py-2">
+                    <div className="flex flex-wrap items-center gap-3 text-sm">
+                      <span className="min-w-[14rem]">{label(r)}</span>
+                      <span className="text-slate-500 w-24">{r.expiration || "—"}</span>
+                      <ExpiryBadge dte={r.dte} />
+                      <span className="w-28">{currency(r.curValue, r.currency)}</span>
+                      <span className="w-28 text-slate-600">{currency(r.theta, r.currency)}/day</span>
+                      <Sparkline points={points} />
+                      <button className="ml-auto text-slate-700 hover:underline" onClick={() => setOpen(open === r.id ? null : r.id)}>
+                        {open === r.id ? "Hide" : "Day by day"}
+                      </button>
+                    </div>
+                    {open === r.id && (
+                      <div className="mt-2">
+                        <Timeline points={points} code={r.currency} />
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        );
+      })}
+
+      {!rows.length && <div className="text-sm text-slate-500">No positions in this portfolio.</div>}
+    </div>
+  );
+}
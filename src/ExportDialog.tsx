@@ -0,0 +1,72 @@
+import React from "react";
+import { CsvDelimiter } from "./csv";
+import { CsvContext, csvColumns } from "./csvColumns";
+
+/**
+ * Export CSV options: which columns, which delimiter. The choice is saved with the settings.
+ * - Position fields re-import cleanly; computed columns are for spreadsheets and are skipped on import.
+ */
+
+export default function ExportDialog({
+  selected,
+  delimiter,
+  ctx,
+  rowCount,
+  onSelect,
+  onDelimiter,
+  onDownload,
+  onCancel,
+}: {
+  selected: string[];
+  delimiter: CsvDelimiter;
+  ctx: CsvContext;
+  rowCount: number;
+  onSelect: (keys: string[]) => void;
+  onDelimiter: (d: CsvDelimiter) => void;
+  onDownload: () => void;
+  onCancel: () => void;
+}) {
+  const toggle = (key: string) => onSelect(selected.includes(key) ? selected.filter((k) => k !== key) : [...selected, key]);
+  const group = (computed: boolean) => csvColumns.filter((c) => c.computed === computed);
+  const setGroup = (computed: boolean, on: boolean) => {
+    const keys = group(computed).map((c) => c.key);
+    onSelect(on ? Array.from(new Set([...selected, ...keys])) : selected.filter((k) => !keys.includes(k)));
+  };
+
+  return (
+    <section className="bg-white rounded-2xl shadow p-4 mb-6 space-y-3">
+      <div className="font-semibold">Export CSV</div>
+      {[false, true].map((computed) => (
+        <div key={String(computed)}>
+          <div className="flex items-center gap-3 text-sm text-slate-600 mb-1">
+            {computed ? "Computed (not re-imported)" : "Position fields"}
+            <button className="text-xs hover:underline" onClick={() => setGroup(computed, true)}>all</button>
+            <button className="text-xs hover:underline" onClick={() => setGroup(computed, false)}>none</button>
+          </div>
+          <div className="flex flex-wrap gap-x-4 gap-y-1">
+            {group(computed).map((c) => (
+              <label key={c.key} className="flex items-center gap-1 text-sm">
+                <input type="checkbox" checked={selected.includes(c.key)} onChange={() => toggle(c.key)} /> {c.header(ctx)}
+              </label>
+            ))}
+          </div>
+        </div>
+      ))}
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="text-sm text-slate-600">Delimiter</label>
+        <select className="border rounded-lg px-2 py-1" value={delimiter} onChange={(e) => onDelimiter(e.target.value as CsvDelimiter)}>
+          <option value=",">Comma (,)</option>
+          <option value=";">Semicolon (;)</option>
+        </select>
+        <button
+          disabled={!selected.length}
+          onClick={onDownload}
+          className="ml-auto px-4 py-2 rounded-2xl bg-black text-white shadow hover:opacity-90 disabled:opacity-40"
+        >
+          Download {rowCount} row{rowCount === 1 ? "" : "s"}
+        </button>
+        <button onClick={onCancel} className="px-4 py-2 rounded-2xl bg-white border shadow hover:bg-slate-100">Cancel</button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,117 @@
+import React, { useMemo, useState } from "react";
+import { brokerAdapters, ImportedPosition, ImportIssue, MergeMode, runImport } from "./brokers/index";
+import { currency } from "./format";
+import { contractText } from "./occ";
+
+/**
+ * Import preview: shows what a statement turns into before anything reaches the portfolio.
+ * - Format is auto-detected from the header row and can be overridden.
+ * - Unparseable lines are listed with their line numbers; skipped (non-option) lines are collapsed.
+ */
+
+const MODES: { key: MergeMode; label: string; hint: string }[] = [
+  { key: "merge", label: "Merge by contract", hint: "same contract + side adds contracts at the averaged entry price" },
+  { key: "append", label: "Append", hint: "keep every current row and add these" },
+  { key: "replace", label: "Replace", hint: "drop every current row" },
+];
+
+function IssueList({ title, items, error = false }: { title: string; items: ImportIssue[]; error?: boolean }) {
+  if (!items.length) return null;
+  return (
+    <details open={error} className="text-sm">
+      <summary className={`cursor-pointer font-medium ${error ? "text-rose-700" : "text-slate-700"}`}>{title} ({items.length})</summary>
+      <ul className="mt-1 space-y-1 max-h-40 overflow-auto">
+        {items.map((e) => (
+          <li key={`${e.line}-${e.reason}`} className="font-mono text-xs text-slate-600">
+            line {e.line}: {e.reason} — <span className="text-slate-400">{e.text.slice(0, 120)}</span>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
+
+export default function ImportDialog({
+  text,
+  fileName,
+  existingCount,
+  onCancel,
+  onConfirm,
+}: {
+  text: string;
+  fileName: string;
+  existingCount: number;
+  onCancel: () => void;
+  onConfirm: (positions: ImportedPosition[], mode: MergeMode, source: string) => void;
+}) {
+  const [adapterKey, setAdapterKey] = useState("");
+  const [mode, setMode] = useState<MergeMode>(existingCount ? "merge" : "replace");
+  const result = useMemo(() => runImport(text, adapterKey || undefined), [text, adapterKey]);
+
+  return (
+    <section className="bg-white rounded-2xl shadow p-4 mb-6 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="font-semibold">Import {fileName}</div>
+        <select className="border rounded-lg px-2 py-1 text-sm" value={adapterKey} onChange={(e) => setAdapterKey(e.target.value)}>
+          <option value="">Auto-detect{result.adapter && !adapterKey ? ` (${result.adapter.label})` : ""}</option>
+          {brokerAdapters.map((a) => (
+            <option key={a.key} value={a.key}>{a.label}</option>
+          ))}
+        </select>
+        <div className="text-sm text-slate-600">
+          {result.adapter
+            ? `${result.positions.length} position${result.positions.length === 1 ? "" : "s"}${result.fills ? ` from ${result.fills} fills` : ""}${result.closed ? `, ${result.closed} closed inside the file` : ""}`
+            : "Format not recognized"}
+        </div>
+      </div>
+
+      {result.positions.length > 0 && (
+        <div className="overflow-auto max-h-72 border rounded-xl">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-100">
+              <tr>
+                {["Contract", "Side", "Contracts", "Avg Entry $", "Fees", "Opened"].map((h) => (
+                  <th key={h} className="text-left font-semibold text-slate-700 px-3 py-2 whitespace-nowrap">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {result.positions.map((p, i) => (
+                <tr key={i} className="border-t">
+                  <td className="px-3 py-1 whitespace-nowrap">{p.contract ? contractText(p.contract) : p.extra?.contract || p.extra?.ticker || "—"}</td>
+                  <td className="px-3 py-1">{p.side === "short" ? "Sell" : "Buy"}</td>
+                  <td className="px-3 py-1">{p.contracts}</td>
+                  <td className="px-3 py-1 whitespace-nowrap">{currency(p.entryPrice)}</td>
+                  <td className="px-3 py-1 whitespace-nowrap">{currency(p.fees)}</td>
+                  <td className="px-3 py-1 whitespace-nowrap">{p.openDate || "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <IssueList title="Unparseable lines" items={result.errors} error />
+      <IssueList title="Skipped (not option trades)" items={result.skipped} />
+
+      <div className="flex flex-wrap items-center gap-4">
+        {MODES.map((m) => (
+          <label key={m.key} className="flex items-center gap-2 text-sm" title={m.hint}>
+            <input type="radio" name="import-mode" checked={mode === m.key} onChange={() => setMode(m.key)} /> {m.label}
+          </label>
+        ))}
+        <button
+          disabled={!result.positions.length}
+          onClick={() => onConfirm(result.positions, mode, result.adapter?.label ?? "import")}
+          className="ml-auto px-4 py-2 rounded-2xl bg-black text-white shadow hover:opacity-90 disabled:opacity-40"
+        >
+          Import {result.positions.length}
+        </button>
+        <button onClick={onCancel} className="px-4 py-2 rounded-2xl bg-white border shadow hover:bg-slate-100">Cancel</button>
+      </div>
+      {mode === "replace" && existingCount > 0 && (
+        <div className="text-xs text-rose-600">Replace removes the {existingCount} row{existingCount === 1 ? "" : "s"} currently in the portfolio.</div>
+      )}
+    </section>
+  );
+}
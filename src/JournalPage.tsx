@@ -0,0 +1,258 @@
+import React, { useState } from "react";
+import { currency, fixed, numberOr } from "./format";
+import { FxRates } from "./fx";
+import { closeReasons, CloseReason, expirySettlement, holdDays, JournalEntry, journalStats, realizedPL, todayISO } from "./journal";
+import { costBasis, FeeSchedule, Lot, LotMethod, lotMethods, orderFee, takeLots } from "./lots";
+import { OptionType } from "./pricing";
+
+/**
+ * Close / partial-close form and the closed-trades page (#/journal).
+ * - Expired / assigned closes price the exit at intrinsic from the underlying at expiry.
+ * - Rows with several lots close FIFO, LIFO or from picked lots; blank closing fees use the fee schedule
+ *   (nothing for a settlement at expiry).
+ * - Each trade shows in its own currency; the realized totals are in the base currency.
+ */
+
+export type CloseRequest = {
+  contracts: number;
+  exitPrice: number;
+  closeDate: string;
+  fees: number; // closing fees only; opening fees come with the lots
+  reason: CloseReason;
+  method: LotMethod;
+  picks: Record<string, number>; // lot id → contracts, for "specific"
+};
+
+export function ClosePositionForm({
+  row,
+  lots,
+  schedule,
+  onClose,
+  onCancel,
+}: {
+  row: { contract: string; type: OptionType; strike: string; expiration: string; contracts: string; currentPrice: string; underlying: string; settlement?: string; currency?: string };
+  lots: Lot[];
+  schedule: FeeSchedule;
+  onClose: (req: CloseRequest) => void;
+  onCancel: () => void;
+}) {
+  const open = costBasis(lots).contracts;
+  const [qty, setQty] = useState(String(open));
+  const [method, setMethod] = useState<LotMethod>("fifo");
+  const [picks, setPicks] = useState<Record<string, string>>({});
+  const [reason, setReason] = useState<CloseReason>("closed");
+  const [exitPrice, setExitPrice] = useState(row.currentPrice ?? "");
+  const [underlyingAtExpiry, setUnderlyingAtExpiry] = useState(row.underlying ?? "");
+  const [closeDate, setCloseDate] = useState(todayISO());
+  const [fees, setFees] = useState("");
+
+  const atExpiry = reason !== "closed";
+  const settlement = expirySettlement(row.type, numberOr(row.strike), numberOr(underlyingAtExpiry, NaN));
+  const exit = atExpiry ? settlement.exitPrice : numberOr(exitPrice, NaN);
+  const picked = Object.fromEntries(lots.map((l) => [l.id, Math.max(0, Math.min(l.contracts, Math.round(numberOr(picks[l.id], 0))))]));
+  const n = method === "specific" ? Object.values(picked).reduce((a, b) => a + b, 0) : Math.round(numberOr(qty, 0));
+  const estFees = atExpiry ? 0 : orderFee(schedule, n);
+  const ready = n > 0 && n <= open && Number.isFinite(exit) && exit >= 0 && closeDate !== "";
+  const taken = ready ? takeLots(lots, n, method, picked).taken : [];
+
+  const pickReason = (r: CloseReason) => {
+    setReason(r);
+    if (r !== "closed") {
+      setCloseDate(row.expiration || todayISO());
+      setQty(String(open));
+      setMethod("fifo");
+    }
+  };
+
+  return (
+    <section className="bg-white rounded-2xl shadow p-4 mt-6 space-y-3">
+      <div className="font-semibold">Close {row.contract}</div>
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-xs text-slate-500">How</label>
+          <select className="border rounded-lg px-2 py-1" value={reason} onChange={(e) => pickReason(e.target.value as CloseReason)}>
+            <option value="closed">Closed (sold / bought back)</option>
+            <option value="expired">Expired / settled at expiry</option>
+          </select>
+        </div>
+        {lots.length > 1 && !atExpiry && (
+          <div>
+            <label className="block text-xs text-slate-500">Lots</label>
+            <select className="border rounded-lg px-2 py-1" value={method} onChange={(e) => setMethod(e.target.value as LotMethod)}>
+              {lotMethods.map((m) => (
+                <option key={m.key} value={m.key}>{m.label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        {method !== "specific" && (
+          <div>
+            <label className="block text-xs text-slate-500">Contracts (of {open})</label>
+            <input type="number" min={1} max={open} className="w-20 border rounded-lg px-2 py-1 text-right" value={qty} onChange={(e) => setQty(e.target.value)} />
+          </div>
+        )}
+        {atExpiry ? (
+          <div>
+            <label className="block text-xs text-slate-500">Underlying at expiry</label>
+            <input type="number" step="0.01" min={0} className="w-24 border rounded-lg px-2 py-1 text-right" value={underlyingAtExpiry} onChange={(e) => setUnderlyingAtExpiry(e.target.value)} />
+          </div>
+        ) : (
+          <div>
+            <label className="block text-xs text-slate-500">Exit price</label>
+            <input type="number" step="0.01" min={0} className="w-24 border rounded-lg px-2 py-1 text-right" value={exitPrice} onChange={(e) => setExitPrice(e.target.value)} />
+          </div>
+        )}
+        <div>
+          <label className="block text-xs text-slate-500">Date</label>
+          <input type="date" className="border rounded-lg px-2 py-1" value={closeDate} onChange={(e) => setCloseDate(e.target.value)} />
+        </div>
+        <div>
+          <label className="block text-xs text-slate-500">Closing fees $</label>
+          <input type="number" step="0.01" min={0} placeholder={estFees.toFixed(2)} className="w-20 border rounded-lg px-2 py-1 text-right" value={fees} onChange={(e) => setFees(e.target.value)} />
+        </div>
+        <button
+          disabled={!ready}
+          onClick={() => onClose({ contracts: n, exitPrice: exit, closeDate, fees: numberOr(fees, estFees), reason: atExpiry ? settlement.reason : "closed", method, picks: picked })}
+          className="px-4 py-2 rounded-2xl bg-black text-white shadow hover:opacity-90 disabled:opacity-40"
+        >
+          Record close
+        </button>
+        <button onClick={onCancel} className="px-4 py-2 rounded-2xl bg-white border shadow hover:bg-slate-100">Cancel</button>
+      </div>
+      {method === "specific" && (
+        <div className="flex flex-wrap gap-4 text-sm">
+          {lots.map((l) => (
+            <label key={l.id} className="flex items-center gap-2 text-slate-600">
+              {l.openDate || "undated"} · {l.contracts} @ {l.price.toFixed(2)}
+              <input type="number" min={0} max={l.contracts} className="w-16 border rounded-lg px-2 py-1 text-right" value={picks[l.id] ?? ""} onChange={(e) => setPicks({ ...picks, [l.id]: e.target.value })} />
+            </label>
+          ))}
+        </div>
+      )}
+      {lots.length > 1 && taken.length > 0 && (
+        <div className="text-sm text-slate-600">
+          Closes {taken.map((l) => `${l.contracts} @ ${l.price.toFixed(2)} (${l.openDate || "undated"})`).join(", ")}; each lot goes to the journal with its own open date and fees.
+        </div>
+      )}
+      {atExpiry && Number.isFinite(settlement.exitPrice) && (
+        <div className="text-sm text-slate-600">
+          {settlement.reason !== "assigned"
+            ? "Out of the money: expires worthless."
+            : row.settlement === "cash"
+              ? `In the money: settles in cash at intrinsic ${currency(settlement.exitPrice, row.currency)}.`
+              : `In the money: assigned / exercised at intrinsic ${currency(settlement.exitPrice, row.currency)}.`}
+        </div>
+      )}
+    </section>
+  );
+}
+
+const reasonLabel = (r: CloseReason) => closeReasons.find((x) => x.key === r)?.label ?? r;
+const pctText = (n: number) => (Number.isFinite(n) ? `${(n * 100).toFixed(0)}%` : "—");
+const plClass = (n: number) => (n < 0 ? "text-rose-700" : "text-emerald-700");
+
+export function JournalPage({
+  entries,
+  baseCurrency,
+  fxRates,
+  onDelete,
+}: {
+  entries: JournalEntry[];
+  baseCurrency: string;
+  fxRates: FxRates;
+  onDelete: (id: string) => void;
+}) {
+  const stats = journalStats(entries, baseCurrency, fxRates);
+  const sorted = [...entries].sort((a, b) => b.closeDate.localeCompare(a.closeDate));
+
+  return (
+    <>
+      {stats.missing.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 text-amber-800 rounded-2xl p-3 text-sm mb-4">
+          No FX rate to {baseCurrency} for {stats.missing.join(", ")}: those trades are left out of the realized P/L.
+        </div>
+      )}
+      <section className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+        <div className="bg-white rounded-2xl shadow p-4">
+          <div className="text-sm text-slate-600">Realized P/L</div>
+          <div className={`text-xl font-semibold mt-1 ${plClass(stats.realized)}`}>{currency(stats.realized, baseCurrency)}</div>
+        </div>
+        <div className="bg-white rounded-2xl shadow p-4">
+          <div className="text-sm text-slate-600">Win Rate</div>
+          <div className="text-xl font-semibold mt-1">{pctText(stats.winRate)} <span className="text-sm text-slate-500">({stats.wins}W / {stats.losses}L)</span></div>
+        </div>
+        <div className="bg-white rounded-2xl shadow p-4">
+          <div className="text-sm text-slate-600">Average Hold</div>
+          <div className="text-xl font-semibold mt-1">{Number.isFinite(stats.avgHoldDays) ? `${fixed(stats.avgHoldDays, 1)} days` : "—"}</div>
+        </div>
+        <div className="bg-white rounded-2xl shadow p-4">
+          <div className="text-sm text-slate-600">Closed Trades</div>
+          <div className="text-xl font-semibold mt-1">{stats.count}</div>
+        </div>
+      </section>
+
+      {stats.byTicker.length > 0 && (
+        <section className="overflow-auto rounded-2xl border bg-white shadow mb-6">
+          <table className="w-full">
+            <thead className="bg-slate-100">
+              <tr>
+                {["Ticker", "Trades", "Realized P/L", "Win Rate", "Avg Hold"].map((h) => (
+                  <th key={h} className="text-left text-sm font-semibold text-slate-700 px-3 py-3 whitespace-nowrap">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {stats.byTicker.map((t) => (
+                <tr key={t.ticker} className="border-t">
+                  <td className="px-3 py-2 font-medium">{t.ticker}</td>
+                  <td className="px-3 py-2">{t.count}</td>
+                  <td className={`px-3 py-2 whitespace-nowrap font-medium ${plClass(t.realized)}`}>{currency(t.realized, baseCurrency)}</td>
+                  <td className="px-3 py-2">{pctText(t.winRate)}</td>
+                  <td className="px-3 py-2">{Number.isFinite(t.avgHoldDays) ? `${fixed(t.avgHoldDays, 1)} d` : "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      <div className="overflow-auto rounded-2xl border bg-white shadow">
+        <table className="min-w-[1100px] w-full">
+          <thead className="bg-slate-100">
+            <tr>
+              {["Closed", "Contract", "Side", "Contracts", "Entry $", "Exit $", "Fees", "Realized P/L", "Held", "How", ""].map((h) => (
+                <th key={h} className="text-left text-sm font-semibold text-slate-700 px-3 py-3 whitespace-nowrap">{h}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.length === 0 && (
+              <tr>
+                <td colSpan={11} className="px-3 py-6 text-center text-sm text-slate-500">No closed trades yet. Use Close on a portfolio row to record one.</td>
+              </tr>
+            )}
+            {sorted.map((e) => {
+              const pl = realizedPL(e);
+              const days = holdDays(e);
+              return (
+                <tr key={e.id} className="border-t hover:bg-slate-50">
+                  <td className="px-3 py-2 whitespace-nowrap">{e.closeDate}</td>
+                  <td className="px-3 py-2 whitespace-nowrap">{e.contract}</td>
+                  <td className="px-3 py-2">{e.side === "short" ? "Sell" : "Buy"}</td>
+                  <td className="px-3 py-2">{e.contracts}</td>
+                  <td className="px-3 py-2 whitespace-nowrap">{currency(e.entryPrice, e.currency)}</td>
+                  <td className="px-3 py-2 whitespace-nowrap">{currency(e.exitPrice, e.currency)}</td>
+                  <td className="px-3 py-2 whitespace-nowrap">{currency(e.fees, e.currency)}</td>
+                  <td className={`px-3 py-2 whitespace-nowrap font-medium ${plClass(pl)}`}>{currency(pl, e.currency)}</td>
+                  <td className="px-3 py-2 whitespace-nowrap">{Number.isFinite(days) ? `${days} d` : "—"}</td>
+                  <td className="px-3 py-2 whitespace-nowrap">{reasonLabel(e.reason)}</td>
+                  <td className="px-3 py-2"><button className="text-rose-600 hover:underline" onClick={() => onDelete(e.id)}>Delete</button></td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
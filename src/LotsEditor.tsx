@@ -0,0 +1,62 @@
+import React from "react";
+import { currency, numberOr } from "./format";
+import { todayISO } from "./journal";
+import { costBasis, FeeSchedule, Lot, orderFee } from "./lots";
+
+/**
+ * Lots of one row: each with its own contracts, price, open date and opening fees.
+ * - Contracts / Entry $ / Opened / Fees $ on the row are derived from these while there is more than one lot.
+ */
+
+export default function LotsEditor({
+  contract,
+  lots,
+  schedule,
+  onChange,
+  onDone,
+}: {
+  contract: string;
+  lots: Lot[];
+  schedule: FeeSchedule;
+  onChange: (lots: Lot[]) => void;
+  onDone: () => void;
+}) {
+  const basis = costBasis(lots);
+  const update = (id: string, patch: Partial<Lot>) => onChange(lots.map((l) => (l.id === id ? { ...l, ...patch } : l)));
+  const addLot = () => onChange([...lots, { id: crypto.randomUUID(), contracts: 1, price: 0, openDate: todayISO(), fees: orderFee(schedule, 1) }]);
+
+  return (
+    <section className="bg-white rounded-2xl shadow p-4 mt-6 space-y-3">
+      <div className="flex items-center gap-3">
+        <div className="font-semibold">Lots of {contract}</div>
+        <div className="text-sm text-slate-600">
+          {basis.contracts} contracts, average {basis.avgPrice.toFixed(4)}, fees {currency(basis.fees)}
+        </div>
+        <button className="ml-auto text-sm text-slate-600 hover:underline" onClick={onDone}>Done</button>
+      </div>
+      <table className="text-sm">
+        <thead>
+          <tr className="text-slate-500">
+            {["Opened", "Contracts", "Price", "Fees $", ""].map((h) => (
+              <th key={h} className="text-left font-normal px-2 py-1">{h}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {lots.map((l) => (
+            <tr key={l.id}>
+              <td className="px-2 py-1"><input type="date" className="border rounded-lg px-2 py-1" value={l.openDate} onChange={(e) => update(l.id, { openDate: e.target.value })} /></td>
+              <td className="px-2 py-1"><input type="number" min={1} className="w-20 border rounded-lg px-2 py-1 text-right" value={l.contracts} onChange={(e) => update(l.id, { contracts: Math.max(1, Math.round(numberOr(e.target.value, 1))) })} /></td>
+              <td className="px-2 py-1"><input type="number" min={0} step="0.01" className="w-24 border rounded-lg px-2 py-1 text-right" value={l.price} onChange={(e) => update(l.id, { price: Math.max(0, numberOr(e.target.value, 0)) })} /></td>
+              <td className="px-2 py-1"><input type="number" min={0} step="0.01" className="w-20 border rounded-lg px-2 py-1 text-right" value={l.fees} onChange={(e) => update(l.id, { fees: Math.max(0, numberOr(e.target.value, 0)) })} /></td>
+              <td className="px-2 py-1">
+                <button className="text-rose-600 hover:underline disabled:opacity-40" disabled={lots.length < 2} onClick={() => onChange(lots.filter((x) => x.id !== l.id))}>Remove</button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button onClick={addLot} className="px-4 py-2 rounded-2xl bg-white border shadow hover:bg-slate-100">Add Lot</button>
+    </section>
+  );
+}
@@ -0,0 +1,130 @@
+import React, { useMemo, useState } from "react";
+import { currency } from "./format";
+import { earliestExpiry, findBreakevens, payoffAt, payoffCurve, PayoffLeg, PayoffPoint, priceRange } from "./payoff";
+
+/**
+ * P/L payoff chart (plain SVG, no charting dependency)
+ * - Expiration curve is always drawn; "Today" and "Halfway" curves are optional.
+ * - Breakevens are taken from the expiration curve and marked on the zero line.
+ * - Hovering shows the exact P/L of every visible curve at that underlying price.
+ * - Prices and P/L are in the legs' currency (`code`).
+ */
+
+const W = 720;
+const H = 320;
+const PAD = { l: 72, r: 16, t: 16, b: 36 };
+
+const ticks = (lo: number, hi: number, n = 5) => Array.from({ length: n }, (_, i) => lo + ((hi - lo) * i) / (n - 1));
+
+type Curve = { key: string; label: string; at: number; color: string; dash?: string; points: PayoffPoint[] };
+
+export default function PayoffChart({ legs, rate, spot, title, code }: { legs: PayoffLeg[]; rate: number; spot: number; title: string; code: string }) {
+  const [showToday, setShowToday] = useState(true);
+  const [showMid, setShowMid] = useState(false);
+  const [hover, setHover] = useState<number | null>(null);
+
+  const expiry = earliestExpiry(legs);
+  const range = useMemo(() => priceRange(legs, spot), [legs, spot]);
+
+  const curves = useMemo(() => {
+    if (!Number.isFinite(expiry)) return [] as Curve[];
+    const now = Date.now();
+    const list: Curve[] = [{ key: "exp", label: "At expiration", at: expiry, color: "#0f172a", points: [] }];
+    if (showToday && expiry > now) list.push({ key: "today", label: "Today", at: now, color: "#2563eb", dash: "6 4", points: [] });
+    if (showMid && expiry > now) list.push({ key: "mid", label: "Halfway", at: now + (expiry - now) / 2, color: "#9333ea", dash: "2 3", points: [] });
+    return list.map((c) => ({ ...c, points: payoffCurve(legs, range, c.at, rate) }));
+  }, [legs, range, rate, expiry, showToday, showMid]);
+
+  if (!curves.length) {
+    return <div className="text-sm text-slate-500">Set an expiration date to draw the payoff chart.</div>;
+  }
+
+  const ys = curves.flatMap((c) => c.points.map((p) => p.y)).filter(Number.isFinite);
+  let yMin = Math.min(0, ...ys);
+  let yMax = Math.max(0, ...ys);
+  const yPad = (yMax - yMin || 1) * 0.1;
+  yMin -= yPad;
+  yMax += yPad;
+
+  const [lo, hi] = range;
+  const sx = (x: number) => PAD.l + ((x - lo) / (hi - lo)) * (W - PAD.l - PAD.r);
+  const sy = (y: number) => PAD.t + ((yMax - y) / (yMax - yMin)) * (H - PAD.t - PAD.b);
+  const path = (pts: PayoffPoint[]) =>
+    pts
+      .filter((p) => Number.isFinite(p.y))
+      .map((p, i) => `${i ? "L" : "M"}${sx(p.x).toFixed(1)},${sy(p.y).toFixed(1)}`)
+      .join("");
+
+  const breakevens = findBreakevens(curves[0].points);
+
+  const onMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const vx = ((e.clientX - rect.left) / rect.width) * W;
+    const x = lo + ((vx - PAD.l) / (W - PAD.l - PAD.r)) * (hi - lo);
+    setHover(x >= lo && x <= hi ? x : null);
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-4 mb-2">
+        <div className="font-semibold">{title}</div>
+        <label className="flex items-center gap-2 text-sm"><input type="checkbox" checked={showToday} onChange={(e) => setShowToday(e.target.checked)} /> Today</label>
+        <label className="flex items-center gap-2 text-sm"><input type="checkbox" checked={showMid} onChange={(e) => setShowMid(e.target.checked)} /> Halfway to expiry</label>
+        <div className="text-sm text-slate-600">
+          Breakeven{breakevens.length === 1 ? "" : "s"}: {breakevens.length ? breakevens.map((b) => currency(b, code)).join(", ") : "none in range"}
+        </div>
+      </div>
+
+      <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-auto select-none" onMouseMove={onMove} onMouseLeave={() => setHover(null)}>
+        {ticks(yMin, yMax).map((y) => (
+          <g key={`y${y}`}>
+            <line x1={PAD.l} x2={W - PAD.r} y1={sy(y)} y2={sy(y)} stroke="#e2e8f0" />
+            <text x={PAD.l - 6} y={sy(y) + 4} textAnchor="end" fontSize="11" fill="#64748b">{currency(y, code)}</text>
+          </g>
+        ))}
+        {ticks(lo, hi, 7).map((x) => (
+          <text key={`x${x}`} x={sx(x)} y={H - PAD.b + 18} textAnchor="middle" fontSize="11" fill="#64748b">{x.toFixed(2)}</text>
+        ))}
+        <line x1={PAD.l} x2={W - PAD.r} y1={sy(0)} y2={sy(0)} stroke="#94a3b8" />
+        {Number.isFinite(spot) && spot >= lo && spot <= hi && (
+          <g>
+            <line x1={sx(spot)} x2={sx(spot)} y1={PAD.t} y2={H - PAD.b} stroke="#f59e0b" strokeDasharray="4 4" />
+            <text x={sx(spot) + 4} y={PAD.t + 10} fontSize="11" fill="#b45309">spot {spot.toFixed(2)}</text>
+          </g>
+        )}
+
+        {curves.map((c) => (
+          <path key={c.key} d={path(c.points)} fill="none" stroke={c.color} strokeWidth={2} strokeDasharray={c.dash} />
+        ))}
+
+        {breakevens.map((b) => (
+          <g key={`be${b}`}>
+            <circle cx={sx(b)} cy={sy(0)} r={4} fill="#fff" stroke="#0f172a" strokeWidth={2} />
+            <text x={sx(b)} y={sy(0) - 8} textAnchor="middle" fontSize="11" fill="#0f172a">BE {b.toFixed(2)}</text>
+          </g>
+        ))}
+
+        {hover != null && (
+          <g pointerEvents="none">
+            <line x1={sx(hover)} x2={sx(hover)} y1={PAD.t} y2={H - PAD.b} stroke="#475569" />
+            {curves.map((c) => {
+              const y = payoffAt(legs, hover, c.at, rate);
+              return Number.isFinite(y) ? <circle key={c.key} cx={sx(hover)} cy={sy(y)} r={3} fill={c.color} /> : null;
+            })}
+          </g>
+        )}
+      </svg>
+
+      <div className="flex flex-wrap gap-4 text-sm mt-1">
+        {curves.map((c) => (
+          <div key={c.key} className="flex items-center gap-2">
+            <span className="inline-block w-4 h-0.5" style={{ background: c.color }} />
+            <span className="text-slate-600">{c.label}</span>
+            {hover != null && <span className="font-medium">{currency(payoffAt(legs, hover, c.at, rate), code)}</span>}
+          </div>
+        ))}
+        {hover != null && <div className="text-slate-500">@ underlying {currency(hover, code)}</div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import React, { useState } from "react";
+
+/**
+ * Portfolio picker shown under the page title: switch, rename in place, add, delete.
+ * - Delete asks for a second click and is hidden while only one portfolio exists.
+ */
+
+export function PortfolioSwitcher({
+  portfolios,
+  activeId,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDelete,
+}: {
+  portfolios: { id: string; name: string; rows: number }[];
+  activeId: string;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}) {
+  const [confirming, setConfirming] = useState(false);
+  const active = portfolios.find((p) => p.id === activeId);
+
+  const switchTo = (id: string) => {
+    setConfirming(false);
+    onSwitch(id);
+  };
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-2">
+      <label className="text-sm text-slate-600">Portfolio</label>
+      <select className="border rounded-xl px-3 py-2 bg-white" value={activeId} onChange={(e) => switchTo(e.target.value)}>
+        {portfolios.map((p) => (
+          <option key={p.id} value={p.id}>{p.name} ({p.rows})</option>
+        ))}
+      </select>
+      {active && (
+        <input
+          className="w-40 border rounded-xl px-3 py-2"
+          value={active.name}
+          title="Rename this portfolio"
+          onChange={(e) => onRename(active.id, e.target.value)}
+        />
+      )}
+      <button onClick={() => onCreate(`Portfolio ${portfolios.length + 1}`)} className="px-3 py-2 rounded-2xl bg-white border shadow hover:bg-slate-100 text-sm">New Portfolio</button>
+      {portfolios.length > 1 &&
+        (confirming ? (
+          <>
+            <button onClick={() => { setConfirming(false); onDelete(activeId); }} className="px-3 py-2 rounded-2xl bg-rose-600 text-white shadow hover:opacity-90 text-sm">Delete {active?.name} and its journal</button>
+            <button onClick={() => setConfirming(false)} className="text-sm text-slate-600 hover:underline">Keep</button>
+          </>
+        ) : (
+          <button onClick={() => setConfirming(true)} className="text-sm text-rose-600 hover:underline">Delete</button>
+        ))}
+    </div>
+  );
+}
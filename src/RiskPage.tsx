@@ -0,0 +1,138 @@
+import React, { useMemo } from "react";
+import { currency, fixed, numberOr } from "./format";
+import { concentrationWarnings, HEAT_MOVES, heatmapDates, plHeatmap, tickerExposures } from "./risk";
+
+/**
+ * Risk dashboard (#/risk): exposure per underlying, concentration warnings and a move × date P/L heatmap.
+ * - The concentration limit is a saved setting; 0 turns the warnings off.
+ */
+
+const pctText = (n: number) => (Number.isFinite(n) ? `${(n * 100).toFixed(1)}%` : "—");
+
+// green for gains, red for losses, stronger as |P/L| approaches the largest cell
+const heatColor = (v: number, max: number) => {
+  if (!Number.isFinite(v) || max <= 0) return undefined;
+  const a = Math.min(1, Math.abs(v) / max) * 0.6;
+  return v >= 0 ? `rgba(16, 185, 129, ${a.toFixed(2)})` : `rgba(225, 29, 72, ${a.toFixed(2)})`;
+};
+
+// rows are computed rows (see computePortfolio in src/core.ts); money is shown in the base currency
+export function RiskPage({
+  rows,
+  rate,
+  now,
+  limitPct,
+  baseCurrency,
+  onLimit,
+}: {
+  rows: any[];
+  rate: number;
+  now: number;
+  limitPct: number;
+  baseCurrency: string;
+  onLimit: (pct: number) => void;
+}) {
+  const exposures = useMemo(() => tickerExposures(rows, rate), [rows, rate]);
+  const warnings = concentrationWarnings(exposures, limitPct);
+  const dates = useMemo(() => heatmapDates(rows, now), [rows, now]);
+  const heat = useMemo(() => plHeatmap(rows, rate, dates), [rows, rate, dates]);
+  const maxAbs = Math.max(0, ...heat.cells.flat().filter(Number.isFinite).map(Math.abs));
+  const totalRisk = exposures.reduce((n, e) => n + e.capitalAtRisk, 0);
+  const totalDelta = exposures.reduce((n, e) => n + numberOr(e.deltaDollars, 0), 0);
+
+  return (
+    <div className="space-y-6">
+      <section className="bg-white rounded-2xl shadow p-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="font-semibold">Exposure by Underlying</div>
+          <label className="ml-auto flex items-center gap-2 text-sm text-slate-600">
+            Warn when one ticker is above
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={limitPct}
+              onChange={(e) => onLimit(Math.max(0, Math.min(100, numberOr(e.target.value, 0))))}
+              className="w-20 border rounded-xl px-3 py-2 text-right"
+            />
+            % of value
+          </label>
+        </div>
+        {warnings.length > 0 && (
+          <ul className="bg-amber-50 border border-amber-200 text-amber-800 rounded-2xl p-3 text-sm space-y-1">
+            {warnings.map((w) => (
+              <li key={w}>{w}</li>
+            ))}
+          </ul>
+        )}
+        <div className="overflow-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-100">
+              <tr>
+                {["Ticker", "Spot", "Positions", "Value", "Share", "Capital at Risk", "Delta $", "Calls", "Puts", "Call / Put Mix"].map((h) => (
+                  <th key={h} className="text-left font-semibold text-slate-700 px-3 py-2 whitespace-nowrap">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {exposures.map((e) => (
+                <tr key={e.ticker} className="border-t">
+                  <td className="px-3 py-2 font-medium">{e.ticker}</td>
+                  <td className="px-3 py-2">{currency(e.spot, e.currency)}</td>
+                  <td className="px-3 py-2">{e.positions}</td>
+                  <td className="px-3 py-2">{currency(e.value, baseCurrency)}</td>
+                  <td className={`px-3 py-2 ${limitPct > 0 && e.share * 100 > limitPct && exposures.length > 1 ? "text-amber-700 font-medium" : ""}`}>{pctText(e.share)}</td>
+                  <td className="px-3 py-2">{e.capitalAtRisk === Infinity ? <span className="text-rose-700">unlimited</span> : currency(e.capitalAtRisk, baseCurrency)}</td>
+                  <td className="px-3 py-2">{currency(e.deltaDollars, baseCurrency)}</td>
+                  <td className="px-3 py-2">{currency(e.callValue, baseCurrency)}</td>
+                  <td className="px-3 py-2">{currency(e.putValue, baseCurrency)}</td>
+                  <td className="px-3 py-2 whitespace-nowrap">{Number.isFinite(e.callShare) ? `${fixed(e.callShare * 100, 0)}% / ${fixed(100 - e.callShare * 100, 0)}%` : "—"}</td>
+                </tr>
+              ))}
+              <tr className="border-t font-semibold">
+                <td className="px-3 py-2">Total</td>
+                <td className="px-3 py-2" />
+                <td className="px-3 py-2">{rows.length}</td>
+                <td className="px-3 py-2">{currency(exposures.reduce((n, e) => n + e.value, 0), baseCurrency)}</td>
+                <td className="px-3 py-2" />
+                <td className="px-3 py-2">{totalRisk === Infinity ? <span className="text-rose-700">unlimited</span> : currency(totalRisk, baseCurrency)}</td>
+                <td className="px-3 py-2">{currency(totalDelta, baseCurrency)}</td>
+                <td className="px-3 py-2" colSpan={3} />
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      <section className="bg-white rounded-2xl shadow p-4 space-y-3">
+        <div className="font-semibold">Portfolio P/L by Underlying Move and Date</div>
+        <p className="text-sm text-slate-500">
+          Every underlying moves by the same %, IV held constant. P/L is against entry prices.
+          {heat.unpriced > 0 && ` ${heat.unpriced} row${heat.unpriced === 1 ? "" : "s"} without an underlying price or IV left out.`}
+        </p>
+        <div className="overflow-auto">
+          <table className="text-sm">
+            <thead>
+              <tr>
+                <th className="px-3 py-2" />
+                {HEAT_MOVES.map((m) => (
+                  <th key={m} className="px-3 py-2 text-right font-semibold text-slate-700">{m > 0 ? `+${m}` : m}%</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {dates.map((d, i) => (
+                <tr key={d.label}>
+                  <td className="px-3 py-2 text-slate-600 whitespace-nowrap">{d.label}</td>
+                  {heat.cells[i].map((v, j) => (
+                    <td key={j} className="px-3 py-2 text-right whitespace-nowrap" style={{ background: heatColor(v, maxAbs) }}>{currency(v, baseCurrency)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+    </div>
+  );
+}
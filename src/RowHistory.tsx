@@ -0,0 +1,46 @@
+import React from "react";
+import { changeSources, fieldLabel, RowChange } from "./history";
+
+/**
+ * Change log of one row, newest first: what changed, from what to what, and whether it was typed,
+ * filled by the quote feed, brought in by an import or put back by undo / redo.
+ */
+
+export default function RowHistory({ contract, changes, onDone }: { contract: string; changes: RowChange[]; onDone: () => void }) {
+  return (
+    <section className="bg-white rounded-2xl shadow p-4 mt-6 space-y-3">
+      <div className="flex items-center gap-3">
+        <div className="font-semibold">History of {contract || "untitled row"}</div>
+        <div className="text-sm text-slate-600">{changes.length} change{changes.length === 1 ? "" : "s"}</div>
+        <button className="ml-auto text-sm text-slate-600 hover:underline" onClick={onDone}>Done</button>
+      </div>
+      {changes.length ? (
+        <table className="text-sm">
+          <thead>
+            <tr className="text-slate-500">
+              {["When", "Field", "Old", "New", "Source"].map((h) => (
+                <th key={h} className="text-left font-normal px-2 py-1">{h}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {changes
+              .slice()
+              .reverse()
+              .map((c, i) => (
+                <tr key={i} className="border-t">
+                  <td className="px-2 py-1 whitespace-nowrap">{new Date(c.at).toLocaleString()}</td>
+                  <td className="px-2 py-1">{fieldLabel(c.field)}</td>
+                  <td className="px-2 py-1 text-slate-500">{c.from || "—"}</td>
+                  <td className="px-2 py-1">{c.to || "—"}</td>
+                  <td className="px-2 py-1">{changeSources[c.source]}</td>
+                </tr>
+              ))}
+          </tbody>
+        </table>
+      ) : (
+        <div className="text-sm text-slate-500">No changes recorded for this row yet.</div>
+      )}
+    </section>
+  );
+}
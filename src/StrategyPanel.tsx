@@ -0,0 +1,157 @@
+import React, { useState } from "react";
+import { currency, numberOr } from "./format";
+import { buildLegs, LegSpec, Strategy, strategyTemplates } from "./strategy";
+
+/**
+ * Strategy list + "New Strategy" template picker.
+ * - Each strategy shows net debit/credit, max profit, max loss and breakevens at the earliest expiry,
+ *   in the legs' currency (`code`).
+ * - The picker only builds the legs; entry and current prices are filled in on the table afterwards.
+ */
+
+export type StrategySummary = {
+  strategy: Strategy;
+  legs: number;
+  code: string;
+  net: number;
+  maxProfit: number;
+  maxLoss: number;
+  breakevens: number[];
+};
+
+const money = (n: number, code: string) => (n === Infinity ? "Unlimited" : n === -Infinity ? "-Unlimited" : currency(n, code));
+
+export function StrategyList({
+  items,
+  onRename,
+  onUngroup,
+  onChart,
+}: {
+  items: StrategySummary[];
+  onRename: (id: string, name: string) => void;
+  onUngroup: (id: string) => void;
+  onChart: (id: string) => void;
+}) {
+  if (!items.length) return null;
+  return (
+    <section className="overflow-auto rounded-2xl border bg-white shadow mb-6">
+      <table className="w-full">
+        <thead className="bg-slate-100">
+          <tr>
+            {["Strategy", "Legs", "Net Debit / Credit", "Max Profit", "Max Loss", "Breakevens", ""].map((h) => (
+              <th key={h} className="text-left text-sm font-semibold text-slate-700 px-3 py-3 whitespace-nowrap">{h}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {items.map(({ strategy, legs, code, net, maxProfit, maxLoss, breakevens }) => (
+            <tr key={strategy.id} className="border-t">
+              <td className="px-3 py-2"><input className="w-56 border rounded-lg px-2 py-1" value={strategy.name} onChange={(e) => onRename(strategy.id, e.target.value)} /></td>
+              <td className="px-3 py-2">{legs}</td>
+              <td className="px-3 py-2 whitespace-nowrap">{net >= 0 ? `Debit ${currency(net, code)}` : `Credit ${currency(-net, code)}`}</td>
+              <td className="px-3 py-2 whitespace-nowrap text-emerald-700 font-medium">{money(maxProfit, code)}</td>
+              <td className="px-3 py-2 whitespace-nowrap text-rose-700 font-medium">{money(maxLoss, code)}</td>
+              <td className="px-3 py-2 whitespace-nowrap">{breakevens.length ? breakevens.map((b) => b.toFixed(2)).join(" / ") : "—"}</td>
+              <td className="px-3 py-2 whitespace-nowrap space-x-3">
+                <button className="text-slate-700 hover:underline" onClick={() => onChart(strategy.id)}>Chart</button>
+                <button className="text-rose-600 hover:underline" onClick={() => onUngroup(strategy.id)}>Ungroup</button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+}
+
+export function NewStrategyForm({
+  defaultTicker,
+  onCreate,
+  onCancel,
+}: {
+  defaultTicker: string;
+  onCreate: (name: string, template: string, ticker: string, legs: LegSpec[]) => void;
+  onCancel: () => void;
+}) {
+  const [templateKey, setTemplateKey] = useState(strategyTemplates[2].key);
+  const [ticker, setTicker] = useState(defaultTicker);
+  const [expiration, setExpiration] = useState("");
+  const [farExpiration, setFarExpiration] = useState("");
+  const [strikes, setStrikes] = useState<string[]>([]);
+  const [contracts, setContracts] = useState("1");
+
+  const template = strategyTemplates.find((t) => t.key === templateKey)!;
+  const strikeNums = template.strikes.map((_, i) => numberOr(strikes[i], NaN));
+  const filled = strikeNums.filter((k) => k > 0);
+  const ascending = filled.every((k, i) => i === 0 || k > filled[i - 1]);
+  const ready =
+    ticker.trim() !== "" &&
+    expiration !== "" &&
+    (!template.farExpiry || farExpiration > expiration) &&
+    strikeNums.every((k) => k > 0) &&
+    ascending &&
+    numberOr(contracts, 0) > 0;
+
+  const create = () => {
+    const t = ticker.trim().toUpperCase();
+    const legs = buildLegs(template, strikeNums, Math.round(numberOr(contracts, 1)), expiration, farExpiration);
+    onCreate(`${t} ${template.label}`, template.key, t, legs);
+  };
+
+  return (
+    <section className="bg-white rounded-2xl shadow p-4 mb-6 space-y-3">
+      <div className="font-semibold">New Strategy</div>
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-xs text-slate-500">Template</label>
+          <select className="border rounded-lg px-2 py-1" value={templateKey} onChange={(e) => setTemplateKey(e.target.value)}>
+            {strategyTemplates.map((t) => (
+              <option key={t.key} value={t.key}>{t.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-slate-500">Ticker</label>
+          <input className="w-24 border rounded-lg px-2 py-1" value={ticker} onChange={(e) => setTicker(e.target.value)} />
+        </div>
+        <div>
+          <label className="block text-xs text-slate-500">{template.farExpiry ? "Near expiration" : "Expiration"}</label>
+          <input type="date" className="border rounded-lg px-2 py-1" value={expiration} onChange={(e) => setExpiration(e.target.value)} />
+        </div>
+        {template.farExpiry && (
+          <div>
+            <label className="block text-xs text-slate-500">Far expiration</label>
+            <input type="date" className="border rounded-lg px-2 py-1" value={farExpiration} onChange={(e) => setFarExpiration(e.target.value)} />
+          </div>
+        )}
+        {template.strikes.map((label, i) => (
+          <div key={`${template.key}-${i}`}>
+            <label className="block text-xs text-slate-500">{label}</label>
+            <input
+              type="number"
+              step="0.5"
+              min={0}
+              className="w-24 border rounded-lg px-2 py-1 text-right"
+              value={strikes[i] ?? ""}
+              onChange={(e) => {
+                const v = e.target.value;
+                setStrikes((s) => {
+                  const next = [...s];
+                  next[i] = v;
+                  return next;
+                });
+              }}
+            />
+          </div>
+        ))}
+        <div>
+          <label className="block text-xs text-slate-500">Contracts / leg</label>
+          <input type="number" min={1} className="w-20 border rounded-lg px-2 py-1 text-right" value={contracts} onChange={(e) => setContracts(e.target.value)} />
+        </div>
+        <button disabled={!ready} onClick={create} className="px-4 py-2 rounded-2xl bg-black text-white shadow hover:opacity-90 disabled:opacity-40">Create</button>
+        <button onClick={onCancel} className="px-4 py-2 rounded-2xl bg-white border shadow hover:bg-slate-100">Cancel</button>
+      </div>
+      {!ascending && <div className="text-xs text-rose-600">Strikes must increase from left to right.</div>}
+    </section>
+  );
+}
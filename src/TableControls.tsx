@@ -0,0 +1,148 @@
+import React, { useState } from "react";
+import { emptyFilter, GroupBy, isFiltered, moveColumn, TableFilter, TableLayout, tableColumns, toggleColumn } from "./tableView";
+
+/**
+ * Controls above the positions table: filters, grouping, the column picker and bulk actions on selected rows.
+ * - Column choice, order, sort and grouping are saved with the settings; filters and the selection are not.
+ */
+
+export function TableToolbar({
+  layout,
+  onLayout,
+  filter,
+  onFilter,
+  shown,
+  total,
+  pct,
+}: {
+  layout: TableLayout;
+  onLayout: (layout: TableLayout) => void;
+  filter: TableFilter;
+  onFilter: (filter: TableFilter) => void;
+  shown: number;
+  total: number;
+  pct: number;
+}) {
+  const [picking, setPicking] = useState(false);
+  const set = (patch: Partial<TableFilter>) => onFilter({ ...filter, ...patch });
+  const byKey = new Map(tableColumns.map((c) => [c.key, c]));
+
+  return (
+    <section className="bg-white rounded-2xl shadow p-3 mb-3 space-y-3">
+      <div className="flex flex-wrap items-center gap-3 text-sm text-slate-600">
+        <input className="w-28 border rounded-xl px-3 py-2" placeholder="Ticker" value={filter.ticker} onChange={(e) => set({ ticker: e.target.value })} />
+        <select className="border rounded-xl px-3 py-2" value={filter.type} onChange={(e) => set({ type: e.target.value as TableFilter["type"] })}>
+          <option value="">Calls + puts</option>
+          <option value="C">Calls</option>
+          <option value="P">Puts</option>
+        </select>
+        <label className="flex items-center gap-2">
+          Expires
+          <input type="date" className="border rounded-xl px-3 py-2" value={filter.expFrom} onChange={(e) => set({ expFrom: e.target.value })} />
+          to
+          <input type="date" className="border rounded-xl px-3 py-2" value={filter.expTo} onChange={(e) => set({ expTo: e.target.value })} />
+        </label>
+        <select className="border rounded-xl px-3 py-2" value={filter.pl} onChange={(e) => set({ pl: e.target.value as TableFilter["pl"] })}>
+          <option value="">Any P/L</option>
+          <option value="gain">Gains</option>
+          <option value="loss">Losses</option>
+        </select>
+        {isFiltered(filter) && (
+          <button className="hover:underline" onClick={() => onFilter(emptyFilter())}>Clear filters</button>
+        )}
+        <span>{shown === total ? `${total} rows` : `${shown} of ${total} rows`}</span>
+        <label className="ml-auto flex items-center gap-2">
+          Group by
+          <select className="border rounded-xl px-3 py-2" value={layout.groupBy} onChange={(e) => onLayout({ ...layout, groupBy: e.target.value as GroupBy })}>
+            <option value="">—</option>
+            <option value="ticker">Ticker</option>
+            <option value="expiration">Expiration</option>
+          </select>
+        </label>
+        <button className="px-4 py-2 rounded-2xl bg-white border shadow hover:bg-slate-100" onClick={() => setPicking((v) => !v)}>Columns</button>
+      </div>
+
+      {picking && (
+        <div className="grid sm:grid-cols-2 gap-4 text-sm">
+          <div>
+            <div className="font-semibold mb-1">Shown, in order</div>
+            <ul className="space-y-1">
+              {layout.columns.map((key, i) => (
+                <li key={key} className="flex items-center gap-2">
+                  <input type="checkbox" checked disabled={layout.columns.length < 2} onChange={() => onLayout({ ...layout, columns: toggleColumn(layout.columns, key) })} />
+                  <span className="flex-1">{byKey.get(key)?.header(pct)}</span>
+                  <button className="px-2 disabled:opacity-30" disabled={i === 0} onClick={() => onLayout({ ...layout, columns: moveColumn(layout.columns, key, -1) })}>↑</button>
+                  <button className="px-2 disabled:opacity-30" disabled={i === layout.columns.length - 1} onClick={() => onLayout({ ...layout, columns: moveColumn(layout.columns, key, 1) })}>↓</button>
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div>
+            <div className="font-semibold mb-1">Hidden</div>
+            <ul className="space-y-1">
+              {tableColumns
+                .filter((c) => !layout.columns.includes(c.key))
+                .map((c) => (
+                  <li key={c.key} className="flex items-center gap-2">
+                    <input type="checkbox" checked={false} onChange={() => onLayout({ ...layout, columns: toggleColumn(layout.columns, c.key) })} />
+                    <span>{c.header(pct)}</span>
+                  </li>
+                ))}
+            </ul>
+            <button className="mt-3 text-slate-600 hover:underline" onClick={() => onLayout({ ...layout, columns: tableColumns.map((c) => c.key) })}>Show all in default order</button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
+
+// delete and close ask once more before touching the rows
+export function BulkActions({
+  count,
+  onDelete,
+  onSync,
+  onClose,
+  onClear,
+}: {
+  count: number;
+  onDelete: () => void;
+  onSync: () => void;
+  onClose: () => void;
+  onClear: () => void;
+}) {
+  const [pending, setPending] = useState<"delete" | "close" | null>(null);
+  if (!count) return null;
+  const what = `${count} selected row${count === 1 ? "" : "s"}`;
+
+  return (
+    <section className="bg-sky-50 border border-sky-200 rounded-2xl p-3 mb-3 flex flex-wrap items-center gap-3 text-sm">
+      {pending ? (
+        <>
+          <span className="font-medium">
+            {pending === "delete" ? `Remove ${what}? Nothing goes to the journal.` : `Close ${what} in full at Current $, today, with estimated fees?`}
+          </span>
+          <button
+            className="px-4 py-2 rounded-2xl bg-rose-600 text-white shadow hover:opacity-90"
+            onClick={() => {
+              if (pending === "delete") onDelete();
+              else onClose();
+              setPending(null);
+            }}
+          >
+            {pending === "delete" ? "Remove" : "Close positions"}
+          </button>
+          <button className="px-4 py-2 rounded-2xl bg-white border shadow hover:bg-slate-100" onClick={() => setPending(null)}>Cancel</button>
+        </>
+      ) : (
+        <>
+          <span className="font-medium">{what}</span>
+          <button className="px-4 py-2 rounded-2xl bg-emerald-600 text-white shadow hover:opacity-90" onClick={onSync}>Sync quotes</button>
+          <button className="px-4 py-2 rounded-2xl bg-white border shadow hover:bg-slate-100" onClick={() => setPending("close")}>Close…</button>
+          <button className="px-4 py-2 rounded-2xl bg-white border shadow hover:bg-slate-100 text-rose-600" onClick={() => setPending("delete")}>Remove…</button>
+          <button className="ml-auto text-slate-600 hover:underline" onClick={onClear}>Clear selection</button>
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,44 @@
+import { assert, test } from "vitest";
+import { AlertRule, AlertSubject, describeRule, evaluateAlerts, rowMetrics } from "./alerts";
+import { currency } from "./format";
+
+test("threshold rules fire once per crossing and re-arm", () => {
+  const loss: AlertRule = { id: "r1", target: "portfolio", metric: "unrealized", op: "<=", threshold: -500, enabled: true };
+  const pf = (unrealized: number): AlertSubject[] => [{ key: "portfolio", label: "Portfolio", metrics: { unrealized } }];
+
+  let a = evaluateAlerts([loss], pf(-200), {});
+  assert.equal(a.fired.length, 0, "above the threshold → quiet");
+  a = evaluateAlerts([loss], pf(-600), a.state);
+  assert.equal(a.fired.length, 1, "≤ -500 fires");
+  assert.include(a.fired[0].message, "Unrealized P/L");
+  a = evaluateAlerts([loss], pf(-700), a.state);
+  assert.equal(a.fired.length, 0, "still below → no repeat");
+  a = evaluateAlerts([loss], pf(NaN), a.state);
+  assert.equal(a.fired.length, 0, "missing value → quiet");
+  assert.isTrue(a.state["r1|portfolio"]?.on, "missing value keeps the state");
+  a = evaluateAlerts([loss], pf(-700), evaluateAlerts([loss], pf(0), a.state).state);
+  assert.equal(a.fired.length, 1, "re-arms after recovering");
+});
+
+test("breakeven crossings per row", () => {
+  const be: AlertRule = { id: "r2", target: "rows", metric: "breakeven", op: "crosses", threshold: 0, enabled: true };
+  const row = (id: string, underlying: string) => ({ key: id, label: id, metrics: rowMetrics({ id, underlying, breakevenStock: 16, entryPrice: "1", currentPrice: "2.5", expiration: "" }) });
+  let b = evaluateAlerts([be], [row("x", "15"), row("y", "17")], {});
+  assert.equal(b.fired.length, 0, "crosses never fires on first sight");
+  b = evaluateAlerts([be], [row("x", "16.5"), row("y", "17")], b.state);
+  assert.deepEqual(b.fired.map((e) => e.subject), ["x"], "only the row that crossed breakeven fires");
+  assert.equal(evaluateAlerts([{ ...be, enabled: false }], [row("x", "15")], b.state).fired.length, 0, "disabled rules stay quiet");
+});
+
+test("premium multiple = current / entry", () => {
+  assert.equal(rowMetrics({ entryPrice: "1", currentPrice: "2.5" }).premiumMultiple, 2.5);
+});
+
+test("money in alert messages uses the subject's currency", () => {
+  const loss: AlertRule = { id: "r3", target: "portfolio", metric: "unrealized", op: "<=", threshold: -500, enabled: true };
+  const fired = evaluateAlerts([loss], [{ key: "portfolio", label: "Portfolio", metrics: { unrealized: -600 }, currency: "EUR" }], {}).fired;
+  assert.equal(fired.length, 1);
+  assert.include(fired[0].message, currency(-600, "EUR"), "EUR portfolio reports EUR");
+  assert.isTrue(describeRule(loss, "GBP").endsWith(currency(-500, "GBP")));
+  assert.isTrue(describeRule(loss).endsWith("-500.00"), "plain amount without a code");
+});
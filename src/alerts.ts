@@ -0,0 +1,129 @@
+/**
+ * Alert rules
+ * --------------------------------------------
+ * - A rule watches one metric on the portfolio, on every row or on a single row: value ≤ / ≥ a threshold,
+ *   or value crossing it in either direction.
+ * - Rules are edge-triggered: ≤ / ≥ fire when the condition turns true and re-arm once it turns false again;
+ *   "crosses" fires when the value lands on the other side of the threshold than last time.
+ * - evaluateAlerts is pure: the caller keeps the returned state and feeds it back on the next refresh / edit.
+ *   A metric that can't be computed (no quote, no underlying) leaves that rule's state untouched.
+ * - Money metrics are in the subject's currency: the base currency for the portfolio, the row's own for a row.
+ */
+
+import { currency, fixed } from "./format";
+import { daysToExpiry } from "./pricing";
+
+export type AlertMetric = "unrealized" | "value" | "premium" | "premiumMultiple" | "underlying" | "breakeven" | "dte" | "delta" | "theta";
+
+export type AlertOp = "<=" | ">=" | "crosses";
+
+export type AlertRule = {
+  id: string;
+  target: string; // "portfolio" | "rows" (every row) | a row id
+  metric: AlertMetric;
+  op: AlertOp;
+  threshold: number;
+  enabled: boolean;
+};
+
+// something rules can look at: the portfolio or one row
+export type AlertSubject = {
+  key: string; // "portfolio" | row id
+  label: string;
+  metrics: Partial<Record<AlertMetric, number>>;
+  currency?: string; // of the money metrics, USD when unset
+};
+
+export type AlertEvent = {
+  id: string;
+  ruleId: string;
+  subject: string;
+  message: string;
+  at: number;
+};
+
+// per rule + subject: whether ≤ / ≥ currently holds, and which side of the threshold the value was on
+export type AlertState = Record<string, { on: boolean; side: number }>;
+
+// no code: a threshold shared by rows in several currencies, shown as a plain amount
+const money = (n: number, code?: string) => (code ? currency(n, code) : fixed(n, 2));
+
+export const alertMetrics: { key: AlertMetric; label: string; portfolio: boolean; format: (n: number, code?: string) => string }[] = [
+  { key: "unrealized", label: "Unrealized P/L", portfolio: true, format: money },
+  { key: "value", label: "Current value", portfolio: true, format: money },
+  { key: "premium", label: "Premium (Current $)", portfolio: false, format: money },
+  { key: "premiumMultiple", label: "Premium × entry", portfolio: false, format: (n) => `${fixed(n, 2)}×` },
+  { key: "underlying", label: "Underlying $", portfolio: false, format: money },
+  { key: "breakeven", label: "Underlying − breakeven", portfolio: false, format: money },
+  { key: "dte", label: "Days to expiry", portfolio: false, format: (n) => `${n}d` },
+  { key: "delta", label: "Delta (shares)", portfolio: true, format: (n) => fixed(n, 1) },
+  { key: "theta", label: "Theta / day", portfolio: true, format: money },
+];
+
+export const alertOps: { key: AlertOp; label: string }[] = [
+  { key: "<=", label: "≤" },
+  { key: ">=", label: "≥" },
+  { key: "crosses", label: "crosses" },
+];
+
+const metricOf = (key: AlertMetric) => alertMetrics.find((m) => m.key === key) ?? alertMetrics[0];
+
+export function describeRule(rule: AlertRule, code?: string) {
+  const m = metricOf(rule.metric);
+  const op = alertOps.find((o) => o.key === rule.op)?.label ?? rule.op;
+  return `${m.label} ${op} ${m.format(rule.threshold, code)}`;
+}
+
+// metrics of one computed row (see computeRow in src/core.ts); NaN wherever an input is missing
+export function rowMetrics(row: any, now = Date.now()): Partial<Record<AlertMetric, number>> {
+  const entry = parseFloat(row.entryPrice);
+  const current = parseFloat(row.currentPrice);
+  const underlying = parseFloat(row.underlying);
+  return {
+    unrealized: row.unrealNow,
+    value: row.curValue,
+    premium: current > 0 ? current : NaN,
+    premiumMultiple: entry > 0 && current > 0 ? current / entry : NaN,
+    underlying: underlying > 0 ? underlying : NaN,
+    breakeven: underlying > 0 ? underlying - row.breakevenStock : NaN,
+    dte: daysToExpiry(row.expiration, now),
+    delta: row.delta,
+    theta: row.theta,
+  };
+}
+
+const pairKey = (ruleId: string, subject: string) => `${ruleId}|${subject}`;
+
+const appliesTo = (rule: AlertRule, s: AlertSubject) =>
+  rule.target === "portfolio" ? s.key === "portfolio" : rule.target === "rows" ? s.key !== "portfolio" : s.key === rule.target;
+
+export function evaluateAlerts(rules: AlertRule[], subjects: AlertSubject[], prev: AlertState, now = Date.now()) {
+  const state: AlertState = {};
+  const fired: AlertEvent[] = [];
+
+  for (const rule of rules) {
+    if (!rule.enabled || !Number.isFinite(rule.threshold)) continue;
+    const m = metricOf(rule.metric);
+    for (const s of subjects) {
+      if (!appliesTo(rule, s)) continue;
+      const key = pairKey(rule.id, s.key);
+      const value = s.metrics[rule.metric];
+      const before = prev[key];
+      if (value == null || !Number.isFinite(value)) {
+        if (before) state[key] = before;
+        continue;
+      }
+
+      const side = value >= rule.threshold ? 1 : -1;
+      const on = rule.op === "<=" ? value <= rule.threshold : rule.op === ">=" ? value >= rule.threshold : false;
+      const hit = rule.op === "crosses" ? before != null && before.side !== 0 && before.side !== side : on && !before?.on;
+      state[key] = { on, side };
+      if (hit) {
+        const code = s.currency ?? "USD";
+        const what = rule.op === "crosses" ? `${m.label} crossed ${m.format(rule.threshold, code)}` : describeRule(rule, code);
+        fired.push({ id: `${key}|${now}`, ruleId: rule.id, subject: s.key, message: `${s.label}: ${what} (now ${m.format(value, code)})`, at: now });
+      }
+    }
+  }
+  return { fired, state };
+}
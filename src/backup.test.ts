@@ -0,0 +1,39 @@
+import { assert, test } from "vitest";
+import { BACKUP_FORMAT, describeWorkspace, exportWorkspace, importWorkspace } from "./backup";
+import { sanitizeStore } from "./storage";
+
+const store = sanitizeStore({
+  activeId: "ira",
+  portfolios: [
+    { id: "main", name: "Main", rows: [{ id: "r1", ticker: "CIFR", notes: 'said "hold", then, sold', extra: { keep: true } }], journal: [{ id: "j1", contracts: 1, entryPrice: 1, exitPrice: 1.5, fees: 0.65 }] },
+    { id: "ira", name: "IRA", rows: [], alerts: [{ id: "a", target: "portfolio", metric: "value", op: ">=", threshold: 1000, enabled: true }] },
+  ],
+  settings: { pct: 20, apiKey: "sk_live", scenario: { mode: "target", targets: { CIFR: 18 }, movePct: 5, days: 7 } },
+});
+
+test("export → import gives identical state, API key left out", () => {
+  const file = exportWorkspace(store);
+  assert.notInclude(file, "sk_live", "API key stays out of the file");
+  const back = importWorkspace(file, "sk_live");
+  assert.isTrue(back.ok);
+  if (!back.ok) return;
+  assert.deepEqual(back.store, store, "identical state");
+  assert.equal(back.store.portfolios[0].rows[0].notes, 'said "hold", then, sold', "quotes and commas in notes survive");
+});
+
+test("bad files are rejected with the problems listed", () => {
+  const bad = importWorkspace(JSON.stringify({ format: BACKUP_FORMAT, version: 5, portfolios: [{ id: "x", name: "X", rows: [1], journal: [{ contracts: "1" }] }] }));
+  assert.isFalse(bad.ok);
+  if (bad.ok) return;
+  assert.isTrue(bad.problems.some((p) => p.includes("rows[0]")), "validation points at the bad row");
+  assert.isTrue(bad.problems.some((p) => p.includes("journal[0].contracts")), "validation points at the bad journal field");
+});
+
+test("not JSON / not a backup are rejected", () => {
+  assert.isFalse(importWorkspace("{").ok);
+  assert.isFalse(importWorkspace('{"rows": []}').ok);
+});
+
+test("summary line", () => {
+  assert.equal(describeWorkspace(store), "2 portfolios, 1 row, 1 journal entry");
+});
@@ -0,0 +1,77 @@
+/**
+ * Workspace backup (JSON)
+ * --------------------------------------------
+ * - One file holds every portfolio (rows, strategies, journal, alerts) plus the page settings, exactly as stored.
+ * - The quote API key is never written to the file; restoring keeps whatever key is set now.
+ * - Import validates the structure first and reports what is wrong instead of guessing;
+ *   files from an older schema go through the same migrations as localStorage (src/storage.ts).
+ */
+
+import { migrate, sanitizeStore, SCHEMA_VERSION, Store } from "./storage";
+
+export const BACKUP_FORMAT = "options-workspace";
+
+const isObject = (v: unknown): v is Record<string, any> => v != null && typeof v === "object" && !Array.isArray(v);
+
+export function exportWorkspace(store: Store, now = Date.now()) {
+  const { apiKey: _secret, ...settings } = store.settings;
+  return JSON.stringify(
+    { format: BACKUP_FORMAT, version: store.version, exportedAt: new Date(now).toISOString(), activeId: store.activeId, portfolios: store.portfolios, settings },
+    null,
+    2
+  );
+}
+
+// structural problems, with a path to each; empty when the file can be restored
+export function validateWorkspace(doc: unknown): string[] {
+  if (!isObject(doc)) return ["not a JSON object"];
+  if (doc.format !== BACKUP_FORMAT) return [`not a workspace backup (format is ${JSON.stringify(doc.format ?? null)})`];
+  const problems: string[] = [];
+  if (!Number.isInteger(doc.version) || doc.version < 1) problems.push("version must be a positive integer");
+  else if (doc.version > SCHEMA_VERSION) problems.push(`made by a newer version (schema ${doc.version}, this app reads up to ${SCHEMA_VERSION})`);
+  if (doc.settings != null && !isObject(doc.settings)) problems.push("settings must be an object");
+  if (!Array.isArray(doc.portfolios) || !doc.portfolios.length) return [...problems, "portfolios must be a non-empty array"];
+
+  doc.portfolios.forEach((p: unknown, i: number) => {
+    const at = `portfolios[${i}]`;
+    if (!isObject(p)) return problems.push(`${at} must be an object`);
+    if (typeof p.id !== "string" || !p.id) problems.push(`${at}.id must be a non-empty string`);
+    if (typeof p.name !== "string") problems.push(`${at}.name must be a string`);
+    for (const key of ["rows", "strategies", "journal", "alerts", "alertLog"]) {
+      if (p[key] == null && key !== "rows") continue;
+      if (!Array.isArray(p[key])) problems.push(`${at}.${key} must be an array`);
+      else p[key].forEach((item: unknown, j: number) => !isObject(item) && problems.push(`${at}.${key}[${j}] must be an object`));
+    }
+    if (p.alertState != null && !isObject(p.alertState)) problems.push(`${at}.alertState must be an object`);
+    if (p.history != null && !isObject(p.history)) problems.push(`${at}.history must be an object`);
+    if (Array.isArray(p.rows)) p.rows.forEach((r: any, j: number) => isObject(r) && typeof r.id !== "string" && problems.push(`${at}.rows[${j}].id must be a string`));
+    if (Array.isArray(p.journal)) {
+      p.journal.forEach((e: any, j: number) => {
+        if (!isObject(e)) return;
+        for (const n of ["contracts", "entryPrice", "exitPrice", "fees"]) if (!Number.isFinite(e[n])) problems.push(`${at}.journal[${j}].${n} must be a number`);
+      });
+    }
+  });
+  return problems;
+}
+
+export type RestoreResult = { ok: true; store: Store } | { ok: false; problems: string[] };
+
+export function importWorkspace(text: string, apiKey = ""): RestoreResult {
+  let doc: any;
+  try {
+    doc = JSON.parse(text);
+  } catch (e) {
+    return { ok: false, problems: [`not valid JSON (${e instanceof Error ? e.message : e})`] };
+  }
+  const problems = validateWorkspace(doc);
+  if (problems.length) return { ok: false, problems: problems.slice(0, 12) };
+  const store = sanitizeStore(migrate(doc));
+  return { ok: true, store: { ...store, settings: { ...store.settings, apiKey } } };
+}
+
+export function describeWorkspace(store: Store) {
+  const count = (k: "rows" | "journal") => store.portfolios.reduce((n, p) => n + p[k].length, 0);
+  const plural = (n: number, one: string, many = `${one}s`) => `${n} ${n === 1 ? one : many}`;
+  return `${plural(store.portfolios.length, "portfolio")}, ${plural(count("rows"), "row")}, ${plural(count("journal"), "journal entry", "journal entries")}`;
+}
@@ -0,0 +1,77 @@
+import { readFileSync } from "node:fs";
+import { assert, test } from "vitest";
+import { occSymbol } from "../occ";
+import { ImportResult, ImportRow, mergeRows, runImport } from "./index";
+
+// sample statements, one per adapter (trimmed real-world layouts, fake accounts); each mixes option fills,
+// a non-option line that must be skipped and one broken line that must be reported
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/${name}.csv`, import.meta.url), "utf8");
+
+const byKey = (r: ImportResult) => new Map(r.positions.map((p) => [`${p.contract ? occSymbol(p.contract) : "?"}|${p.side}`, p]));
+
+test("Fidelity", () => {
+  const fid = runImport(fixture("fidelity"));
+  const fidCifr = byKey(fid).get("CIFR251219C00015000|long");
+  assert.equal(fid.adapter?.key, "fidelity", "detects Fidelity past the preamble");
+  assert.equal(fidCifr?.contracts, 2, "2 + 1 bought, 1 sold → 2 open");
+  assert.closeTo(fidCifr?.entryPrice ?? NaN, 1.1, 1e-9, "at 1.10 average");
+  assert.closeTo(fidCifr?.fees ?? 0, 1.34, 1e-9, "opening fees scaled to what is still open");
+  assert.equal(byKey(fid).get("IREN251121P00040000|short")?.contracts, 1, "sold to open → short");
+  assert.deepEqual(fid.errors.map((e) => e.line), [10], "1 bad symbol reported");
+  assert.equal(fid.skipped.length, 1, "dividend skipped");
+});
+
+test("Schwab", () => {
+  const sch = runImport(fixture("schwab"));
+  assert.equal(sch.adapter?.key, "schwab");
+  assert.deepEqual(sch.positions.map((p) => p.contracts), [2], "expired short put drops out, CIFR x2 stays");
+  assert.equal(sch.closed, 1, "1 round trip");
+  assert.equal(sch.errors.length, 1, "1 bad date");
+  assert.equal(sch.skipped.length, 2, "stock + total line skipped");
+});
+
+test("IBKR", () => {
+  const ib = runImport(fixture("ibkr"));
+  assert.equal(ib.adapter?.key, "ibkr");
+  assert.equal(byKey(ib).get("CIFR251219C00015000|long")?.contracts, 2, "3 bought, 1 sold → 2 long");
+  assert.equal(byKey(ib).get("SPY260116P00600000|short")?.entryPrice, 5.4, "padded OSI symbol, short 2 @ 5.40");
+  assert.equal(ib.errors.length, 1, "broken symbol reported");
+  assert.equal(ib.skipped.length, 1, "stock skipped");
+});
+
+test("Robinhood", () => {
+  const rh = runImport(fixture("robinhood"));
+  const rhCifr = byKey(rh).get("CIFR251219C00015000|long");
+  assert.equal(rh.adapter?.key, "robinhood");
+  assert.equal(rh.positions.length, 1, "expired put drops out");
+  assert.equal(rhCifr?.contracts, 2);
+  assert.closeTo(rhCifr?.entryPrice ?? NaN, 1, 1e-9, "2 @ 1.00 avg");
+  assert.closeTo(rhCifr?.fees ?? NaN, 0.08, 1e-9, "fees from Amount");
+  assert.equal(rh.errors.length, 1, "bad strike reported, footer ignored");
+  assert.equal(rh.skipped.length, 1, "stock skipped");
+});
+
+test("own export", () => {
+  const own = runImport(fixture("zebra"));
+  assert.equal(own.adapter?.key, "zebra");
+  assert.equal(own.positions.length, 2, "rows pass through");
+  assert.equal(own.errors.length, 1, "empty row reported");
+  assert.equal(own.positions[0].extra?.notes, "swing, earnings", "quoted commas kept");
+  const picked = runImport('Entry Price;Ticker;CurrentValue;Contract;Notes\r\n1.00;CIFR;180.00;CIFR Dec 19 2025 15C;"a; b"\r\n');
+  const pickedRow = picked.positions[0]?.extra ?? {};
+  assert.equal(picked.adapter?.key, "zebra", "any column order / subset, ';' delimited");
+  assert.equal(pickedRow.entryPrice, "1.00");
+  assert.equal(pickedRow.notes, "a; b");
+  assert.deepEqual(Object.keys(pickedRow).sort(), ["contract", "entryPrice", "notes", "side", "ticker", "type"], "computed export columns are not imported");
+});
+
+test("merge modes", () => {
+  const row = (contracts: string, entryPrice: string): ImportRow => ({ id: contracts, ticker: "CIFR", contract: "", expiration: "2025-12-19", strike: "15", type: "C", side: "long", contracts, entryPrice });
+  const merged = mergeRows([row("2", "1.00")], [row("2", "2.00"), { ...row("1", "3.00"), type: "P" }], "merge");
+  assert.equal(merged.length, 2);
+  assert.equal(merged[0].contracts, "4", "merge by contract adds contracts");
+  assert.equal(merged[0].entryPrice, "1.5000", "and averages entry");
+  assert.equal((merged[0].lots as unknown[]).length, 2, "merged position keeps both lots");
+  assert.equal(merged[0].fees, "2.60", "and their fees");
+  assert.equal(mergeRows([row("1", "1")], [row("1", "1")], "append").length, 2, "append keeps both");
+});
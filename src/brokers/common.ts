@@ -0,0 +1,87 @@
+/**
+ * Shared types + cell helpers for broker statement adapters.
+ * - Adapters see one record at a time, keyed by the (trimmed) header names of the file.
+ * - They return a fill (transaction history), a ready position (position snapshots / our own export),
+ *   a skip (a valid line that isn't an option trade) or an error (a line we should have understood but couldn't).
+ */
+
+import { ContractFields } from "../occ";
+import { Side } from "../strategy";
+
+// "expire" covers expirations and assignments: it reduces whatever is open toward zero
+export type FillAction = "buy" | "sell" | "expire";
+
+export type Fill = {
+  contract: ContractFields;
+  action: FillAction;
+  quantity: number; // always positive
+  price: number;
+  fees: number;
+  date: string; // YYYY-MM-DD, "" when unknown
+};
+
+export type ImportedPosition = {
+  contract: ContractFields | null; // null only for pass-through draft rows
+  side: Side;
+  contracts: number;
+  entryPrice: number; // average cost per share
+  fees: number;
+  openDate: string;
+  extra?: Record<string, string>; // row fields carried over as-is (our own export)
+};
+
+export type ParseOutcome =
+  | { kind: "fill"; fill: Fill }
+  | { kind: "position"; position: ImportedPosition }
+  | { kind: "skip"; reason: string }
+  | { kind: "error"; reason: string };
+
+export type BrokerRecord = Record<string, string>;
+
+export type BrokerAdapter = {
+  key: string;
+  label: string;
+  detect: (headers: string[]) => boolean;
+  parse: (record: BrokerRecord) => ParseOutcome;
+};
+
+const norm = (h: string) => h.trim().toLowerCase();
+
+export const hasColumns = (headers: string[], ...names: string[]) => {
+  const set = new Set(headers.map(norm));
+  return names.every((n) => set.has(norm(n)));
+};
+
+// first non-empty value among several possible column names
+export function pick(record: BrokerRecord, ...names: string[]) {
+  for (const n of names) {
+    const v = record[n];
+    if (v != null && v.trim() !== "") return v.trim();
+  }
+  return "";
+}
+
+// "$1,234.50" / "-$1.00" / "(1.00)" / "1.5" → number, NaN when empty or unreadable
+export function parseMoney(v: string) {
+  const s = (v ?? "").trim();
+  if (!s) return NaN;
+  const negative = /^\(.*\)$/.test(s) || s.includes("-");
+  const n = parseFloat(s.replace(/[()$,\s+-]/g, ""));
+  return Number.isFinite(n) ? (negative ? -n : n) : NaN;
+}
+
+// "11/03/2025", "11/03/2025 as of 11/01/2025", "2025-11-03", "20251103", "20251103;103000" → "2025-11-03"
+export function parseDate(v: string) {
+  const s = (v ?? "").trim();
+  let m = /^(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})/.exec(s);
+  if (m) {
+    const y = m[3].length === 2 ? 2000 + Number(m[3]) : Number(m[3]);
+    return `${y}-${m[1].padStart(2, "0")}-${m[2].padStart(2, "0")}`;
+  }
+  m = /^(\d{4})-?(\d{2})-?(\d{2})/.exec(s);
+  return m ? `${m[1]}-${m[2]}-${m[3]}` : "";
+}
+
+export const fill = (f: Fill): ParseOutcome => ({ kind: "fill", fill: f });
+export const skip = (reason: string): ParseOutcome => ({ kind: "skip", reason });
+export const error = (reason: string): ParseOutcome => ({ kind: "error", reason });
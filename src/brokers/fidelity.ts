@@ -0,0 +1,35 @@
+import { parseContract } from "../occ";
+import { BrokerAdapter, error, fill, hasColumns, parseDate, parseMoney, pick, skip } from "./common";
+
+/**
+ * Fidelity "Accounts_History.csv"
+ * - Option symbols look like " -CIFR251219C15"; anything without the leading "-" is a stock / cash line.
+ * - Quantity is signed (bought > 0, sold < 0); expirations and assignments only reduce what is open.
+ */
+export const fidelity: BrokerAdapter = {
+  key: "fidelity",
+  label: "Fidelity",
+  detect: (h) => hasColumns(h, "Run Date", "Action", "Symbol", "Quantity"),
+  parse: (r) => {
+    const symbol = pick(r, "Symbol");
+    const action = pick(r, "Action").toUpperCase();
+    if (!symbol.startsWith("-")) return skip("not an option");
+    const contract = parseContract(symbol);
+    if (!contract) return error(`unrecognized option symbol "${symbol}"`);
+
+    const qty = parseMoney(pick(r, "Quantity"));
+    if (!Number.isFinite(qty) || qty === 0) return error("missing quantity");
+    const expiring = /EXPIRED|ASSIGNED|EXERCISED/.test(action);
+    const price = expiring ? 0 : parseMoney(pick(r, "Price ($)", "Price"));
+    if (!Number.isFinite(price)) return error("missing price");
+
+    return fill({
+      contract,
+      action: expiring ? "expire" : qty > 0 ? "buy" : "sell",
+      quantity: Math.abs(qty),
+      price,
+      fees: Math.abs(parseMoney(pick(r, "Commission ($)")) || 0) + Math.abs(parseMoney(pick(r, "Fees ($)")) || 0),
+      date: parseDate(pick(r, "Run Date")),
+    });
+  },
+};
@@ -0,0 +1,37 @@
+import { fieldsOf, parseContract } from "../occ";
+import { BrokerAdapter, error, fill, hasColumns, parseDate, parseMoney, pick, skip } from "./common";
+
+/**
+ * Interactive Brokers Flex Query (Trades, CSV)
+ * - Symbol is the padded OSI symbol ("CIFR  251219C00015000"); UnderlyingSymbol / Strike / Expiry / Put/Call are the fallback.
+ * - Quantity is signed (bought > 0, sold < 0); IBCommission is negative.
+ */
+export const ibkr: BrokerAdapter = {
+  key: "ibkr",
+  label: "Interactive Brokers (Flex)",
+  detect: (h) => hasColumns(h, "Symbol", "TradeDate", "Quantity", "TradePrice"),
+  parse: (r) => {
+    const assetClass = pick(r, "AssetClass").toUpperCase();
+    if (assetClass && assetClass !== "OPT") return skip("not an option");
+    const symbol = pick(r, "Symbol");
+    const expiry = parseDate(pick(r, "Expiry"));
+    const contract =
+      parseContract(symbol) ??
+      fieldsOf({ ticker: pick(r, "UnderlyingSymbol"), expiration: expiry, strike: pick(r, "Strike"), type: pick(r, "Put/Call").toUpperCase()[0] });
+    if (!contract) return error(`unrecognized option symbol "${symbol}"`);
+
+    const qty = parseMoney(pick(r, "Quantity"));
+    if (!Number.isFinite(qty) || qty === 0) return error("missing quantity");
+    const price = parseMoney(pick(r, "TradePrice"));
+    if (!Number.isFinite(price)) return error("missing price");
+
+    return fill({
+      contract,
+      action: qty > 0 ? "buy" : "sell",
+      quantity: Math.abs(qty),
+      price,
+      fees: Math.abs(parseMoney(pick(r, "IBCommission")) || 0),
+      date: parseDate(pick(r, "TradeDate")),
+    });
+  },
+};
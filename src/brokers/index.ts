@@ -0,0 +1,190 @@
+/**
+ * Broker statement import
+ * --------------------------------------------
+ * - Adapters are tried in order against each line until one recognizes it as its header row;
+ *   everything above the header (titles, account banners) is ignored.
+ * - Lines with fewer than two non-empty cells (blank lines, disclaimers) are ignored; the rest are parsed,
+ *   skipped (not an option) or reported as unparseable with their line number.
+ * - Fills are replayed in date order per contract into net positions with average cost; opening fees are kept
+ *   with the position and scaled down as it is reduced.
+ * - Nothing here touches app state: the caller previews the result and picks replace / append / merge.
+ */
+
+import { styleFor } from "../contractSpec";
+import { readCSV } from "../csv";
+import { defaultFeeSchedule, FeeSchedule, lotFields, rowLots } from "../lots";
+import { contractText, ContractFields, fieldsOf, occSymbol } from "../occ";
+import { Side } from "../strategy";
+import { BrokerAdapter, BrokerRecord, Fill, ImportedPosition } from "./common";
+import { fidelity } from "./fidelity";
+import { ibkr } from "./ibkr";
+import { robinhood } from "./robinhood";
+import { schwab } from "./schwab";
+import { zebra } from "./zebra";
+
+export type { BrokerAdapter, ImportedPosition } from "./common";
+
+export const brokerAdapters: BrokerAdapter[] = [zebra, fidelity, schwab, ibkr, robinhood];
+
+export type ImportIssue = { line: number; text: string; reason: string };
+
+export type ImportResult = {
+  adapter: BrokerAdapter | null;
+  positions: ImportedPosition[];
+  fills: number;
+  closed: number; // positions opened and fully closed inside the file
+  errors: ImportIssue[];
+  skipped: ImportIssue[];
+};
+
+export function aggregateFills(fills: Fill[]) {
+  type Open = { contract: ContractFields; net: number; avg: number; fees: number; openDate: string };
+  const book = new Map<string, Open>();
+  let closed = 0;
+
+  const sorted = fills.map((f, i) => ({ f, i })).sort((a, b) => a.f.date.localeCompare(b.f.date) || a.i - b.i);
+  for (const { f } of sorted) {
+    const key = occSymbol(f.contract);
+    const p = book.get(key) ?? { contract: f.contract, net: 0, avg: 0, fees: 0, openDate: f.date };
+    const dir = f.action === "buy" ? 1 : f.action === "sell" ? -1 : -Math.sign(p.net);
+    if (dir === 0) continue;
+
+    let q = f.quantity;
+    // reduce the opposite side first
+    if (p.net !== 0 && Math.sign(p.net) !== dir) {
+      const reduce = Math.min(q, Math.abs(p.net));
+      p.fees *= (Math.abs(p.net) - reduce) / Math.abs(p.net);
+      p.net += dir * reduce;
+      q -= reduce;
+      if (p.net === 0) {
+        closed += 1;
+        p.avg = 0;
+        p.fees = 0;
+      }
+    }
+    // whatever is left opens / adds (expirations never open anything)
+    if (q > 0 && f.action !== "expire") {
+      if (p.net === 0) p.openDate = f.date;
+      const size = Math.abs(p.net);
+      p.avg = (p.avg * size + f.price * q) / (size + q);
+      p.net += dir * q;
+      p.fees += f.fees * (q / f.quantity);
+    }
+    book.set(key, p);
+  }
+
+  const positions: ImportedPosition[] = Array.from(book.values())
+    .filter((p) => p.net !== 0)
+    .map((p) => ({
+      contract: p.contract,
+      side: (p.net < 0 ? "short" : "long") as Side,
+      contracts: Math.abs(p.net),
+      entryPrice: p.avg,
+      fees: Math.round(p.fees * 100) / 100,
+      openDate: p.openDate,
+    }));
+  return { positions, closed };
+}
+
+export function runImport(text: string, adapterKey?: string): ImportResult {
+  const records = readCSV(text);
+  const candidates = adapterKey ? brokerAdapters.filter((a) => a.key === adapterKey) : brokerAdapters;
+
+  let adapter: BrokerAdapter | null = null;
+  let headers: string[] = [];
+  let start = 0;
+  for (let i = 0; i < records.length && !adapter; i++) {
+    const cells = records[i].cells.map((c) => c.trim());
+    adapter = candidates.find((a) => a.detect(cells)) ?? null;
+    if (adapter) {
+      headers = cells;
+      start = i + 1;
+    }
+  }
+  if (!adapter) {
+    return { adapter: null, positions: [], fills: 0, closed: 0, errors: [{ line: 1, text: records[0]?.cells.join(",") ?? "", reason: "no known header row found" }], skipped: [] };
+  }
+
+  const fills: Fill[] = [];
+  const direct: ImportedPosition[] = [];
+  const errors: ImportIssue[] = [];
+  const skipped: ImportIssue[] = [];
+
+  for (const { line, cells } of records.slice(start)) {
+    const record: BrokerRecord = {};
+    headers.forEach((h, i) => (record[h] = cells[i] ?? ""));
+    if (Object.values(record).filter((v) => v.trim() !== "").length < 2) continue;
+    const text = cells.join(",");
+    const out = adapter.parse(record);
+    if (out.kind === "fill") fills.push(out.fill);
+    else if (out.kind === "position") direct.push(out.position);
+    else if (out.kind === "skip") skipped.push({ line, text, reason: out.reason });
+    else errors.push({ line, text, reason: out.reason });
+  }
+
+  const { positions, closed } = aggregateFills(fills);
+  return { adapter, positions: [...direct, ...positions], fills: fills.length, closed, errors, skipped };
+}
+
+// ---------- rows ----------
+export type ImportRow = {
+  id: string;
+  ticker: string;
+  contract: string;
+  expiration: string;
+  strike: string;
+  type: string;
+  side?: string;
+  contracts: string;
+  entryPrice: string;
+  [k: string]: unknown;
+};
+
+export type MergeMode = "replace" | "append" | "merge";
+
+export function positionToRow<T extends ImportRow>(p: ImportedPosition, base: T, source: string): T {
+  if (p.extra) return { ...base, ...p.extra };
+  const c = p.contract as ContractFields;
+  return {
+    ...base,
+    ticker: c.ticker,
+    contract: contractText(c),
+    expiration: c.expiration,
+    strike: c.strike.toFixed(2),
+    type: c.type,
+    ...styleFor(c.ticker),
+    side: p.side,
+    contracts: String(p.contracts),
+    entryPrice: p.entryPrice.toFixed(4),
+    currentPrice: "",
+    underlying: "",
+    openDate: p.openDate,
+    fees: p.fees.toFixed(2),
+    notes: `Imported from ${source}`,
+  };
+}
+
+const mergeKey = (r: ImportRow) => {
+  const f = fieldsOf(r);
+  return `${f ? occSymbol(f) : r.contract.trim().toUpperCase()}|${r.side === "short" ? "short" : "long"}`;
+};
+
+// merge: same contract + side → the incoming position becomes another lot of the existing row
+// (contracts add up, entry is the weighted average); everything else is appended
+export function mergeRows<T extends ImportRow>(existing: T[], incoming: T[], mode: MergeMode, schedule: FeeSchedule = defaultFeeSchedule()): T[] {
+  if (mode === "replace") return incoming;
+  if (mode === "append") return [...existing, ...incoming];
+
+  const out = existing.map((r) => ({ ...r }));
+  const index = new Map(out.map((r, i) => [mergeKey(r), i]));
+  for (const r of incoming) {
+    const i = index.get(mergeKey(r));
+    if (i == null) {
+      index.set(mergeKey(r), out.length);
+      out.push(r);
+      continue;
+    }
+    out[i] = { ...out[i], ...lotFields([...rowLots(out[i], schedule), ...rowLots(r, schedule)]) };
+  }
+  return out;
+}
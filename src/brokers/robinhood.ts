@@ -0,0 +1,39 @@
+import { parseContract } from "../occ";
+import { BrokerAdapter, error, FillAction, fill, hasColumns, parseDate, parseMoney, pick, skip } from "./common";
+
+/**
+ * Robinhood account activity report
+ * - Trans Code carries the direction (BTO / STO / BTC / STC; OEXP / OASGN / OEXCS settle at expiry).
+ * - Description holds the contract ("CIFR 12/19/2025 Call $15.00", sometimes prefixed "Option Expiration for").
+ * - No fee column: fees are the gap between Amount and Quantity * Price * 100.
+ */
+const CODES: Record<string, FillAction> = { BTO: "buy", BTC: "buy", STO: "sell", STC: "sell", OEXP: "expire", OASGN: "expire", OEXCS: "expire" };
+
+export const robinhood: BrokerAdapter = {
+  key: "robinhood",
+  label: "Robinhood",
+  detect: (h) => hasColumns(h, "Activity Date", "Instrument", "Description", "Trans Code", "Quantity", "Price"),
+  parse: (r) => {
+    const action = CODES[pick(r, "Trans Code").toUpperCase()];
+    if (!action) return skip("not an option trade");
+    const description = pick(r, "Description");
+    const m = /[A-Z][A-Z0-9.]{0,5} \d{1,2}\/\d{1,2}\/\d{4} (?:Call|Put) \$?[\d.,]+/i.exec(description);
+    const contract = m ? parseContract(m[0]) : null;
+    if (!contract) return error(`unrecognized option "${description}"`);
+
+    const qty = Math.abs(parseMoney(pick(r, "Quantity")));
+    if (!(qty > 0)) return error("missing quantity");
+    const price = action === "expire" ? 0 : parseMoney(pick(r, "Price"));
+    if (!Number.isFinite(price)) return error("missing price");
+    const amount = Math.abs(parseMoney(pick(r, "Amount")));
+
+    return fill({
+      contract,
+      action,
+      quantity: qty,
+      price,
+      fees: Number.isFinite(amount) && action !== "expire" ? Math.round(Math.abs(amount - qty * price * 100) * 100) / 100 : 0,
+      date: parseDate(pick(r, "Activity Date")),
+    });
+  },
+};
@@ -0,0 +1,44 @@
+import { parseContract } from "../occ";
+import { BrokerAdapter, error, FillAction, fill, hasColumns, parseDate, parseMoney, pick, skip } from "./common";
+
+/**
+ * Charles Schwab transaction history export
+ * - Option symbols look like "CIFR 12/19/2025 15.00 C"; Action carries the direction ("Buy to Open", "Sell to Close", ...).
+ * - Quantity is unsigned; "Expired" / "Assigned" / "Exchange or Exercise" only reduce what is open.
+ */
+const ACTIONS: Record<string, FillAction> = {
+  "BUY TO OPEN": "buy",
+  "BUY TO CLOSE": "buy",
+  "SELL TO OPEN": "sell",
+  "SELL TO CLOSE": "sell",
+  EXPIRED: "expire",
+  ASSIGNED: "expire",
+  "EXCHANGE OR EXERCISE": "expire",
+};
+
+export const schwab: BrokerAdapter = {
+  key: "schwab",
+  label: "Schwab",
+  detect: (h) => hasColumns(h, "Date", "Action", "Symbol", "Quantity", "Price", "Fees & Comm"),
+  parse: (r) => {
+    const action = ACTIONS[pick(r, "Action").toUpperCase()];
+    if (!action) return skip("not an option trade");
+    const symbol = pick(r, "Symbol");
+    const contract = parseContract(symbol);
+    if (!contract) return error(`unrecognized option symbol "${symbol}"`);
+
+    const qty = Math.abs(parseMoney(pick(r, "Quantity")));
+    if (!(qty > 0)) return error("missing quantity");
+    const price = action === "expire" ? 0 : parseMoney(pick(r, "Price"));
+    if (!Number.isFinite(price)) return error("missing price");
+
+    return fill({
+      contract,
+      action,
+      quantity: qty,
+      price,
+      fees: Math.abs(parseMoney(pick(r, "Fees & Comm")) || 0),
+      date: parseDate(pick(r, "Date")),
+    });
+  },
+};
@@ -0,0 +1,64 @@
+import { fieldsOf, parseContract } from "../occ";
+import { BrokerAdapter, error, parseMoney } from "./common";
+
+/**
+ * This app's own "Export CSV" (Ticker, Contract, Expiration, Strike, Type, Contracts, EntryPrice, CurrentPrice, Fees, Notes, ...).
+ * - Columns are matched by header name, in any order and any subset (the export lets the user pick them);
+ *   case, spaces and underscores don't matter ("Entry Price" = "entry_price" = "EntryPrice").
+ * - Computed export columns (CurrentValue, ScenarioPL, ...) are ignored: they are recalculated.
+ * - One line = one position; every known column is carried over to the row unchanged.
+ * - Draft rows (no recognizable contract yet) are kept as-is instead of being rejected.
+ */
+const COLUMNS: Record<string, string> = {
+  ticker: "ticker",
+  contract: "contract",
+  expiration: "expiration",
+  expiry: "expiration",
+  strike: "strike",
+  type: "type",
+  contracts: "contracts",
+  entryprice: "entryPrice",
+  currentprice: "currentPrice",
+  notes: "notes",
+  underlying: "underlying",
+  iv: "iv",
+  side: "side",
+  opendate: "openDate",
+  fees: "fees",
+  multiplier: "multiplier",
+  exercise: "exercise",
+  settlement: "settlement",
+  currency: "currency",
+};
+
+const norm = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export const zebra: BrokerAdapter = {
+  key: "zebra",
+  label: "Zebra Options export",
+  detect: (h) => h.filter((x) => COLUMNS[norm(x)]).length >= 3 && h.some((x) => ["ticker", "contract"].includes(norm(x))),
+  parse: (r) => {
+    const extra: Record<string, string> = {};
+    for (const [header, value] of Object.entries(r)) {
+      const field = COLUMNS[norm(header)];
+      if (field && extra[field] == null) extra[field] = value;
+    }
+    extra.type = (extra.type || "C").toUpperCase() === "P" ? "P" : "C";
+    extra.side = (extra.side || "").toLowerCase() === "short" ? "short" : "long";
+    if (!extra.ticker && !extra.contract) return error("empty ticker and contract");
+
+    const contracts = parseMoney(extra.contracts ?? "");
+    return {
+      kind: "position",
+      position: {
+        contract: fieldsOf(extra) ?? parseContract(extra.contract ?? ""),
+        side: extra.side as "long" | "short",
+        contracts: Number.isFinite(contracts) ? Math.abs(contracts) : 0,
+        entryPrice: parseMoney(extra.entryPrice ?? ""),
+        fees: parseMoney(extra.fees ?? "") || 0,
+        openDate: extra.openDate ?? "",
+        extra,
+      },
+    };
+  },
+};
@@ -0,0 +1,72 @@
+import { fileURLToPath } from "node:url";
+import { assert, test, vi } from "vitest";
+import { main } from "./cli";
+
+// our own export: one priced CIFR call, a blank row and an unpriced IREN draft
+const fixture = fileURLToPath(new URL("./brokers/fixtures/zebra.csv", import.meta.url));
+
+// run `zebra <argv>` and collect what it prints
+function run(...argv: string[]) {
+  const out: string[] = [];
+  const err: string[] = [];
+  const log = vi.spyOn(console, "log").mockImplementation((...a) => void out.push(a.join(" ")));
+  const error = vi.spyOn(console, "error").mockImplementation((...a) => void err.push(a.join(" ")));
+  const write = vi.spyOn(process.stdout, "write").mockImplementation((chunk) => out.push(String(chunk)) > 0);
+  try {
+    const code = main(argv);
+    return { code, out: out.join("\n"), err: err.join("\n") };
+  } finally {
+    log.mockRestore();
+    error.mockRestore();
+    write.mockRestore();
+  }
+}
+
+test("report as a table", () => {
+  const r = run("report", fixture, "--now", "2025-12-01");
+  assert.equal(r.code, 0);
+  assert.equal(r.err, "line 3: empty ticker and contract", "rows the import skips are reported");
+  assert.match(r.out, /^Zebra Options export, 2 positions, as of /);
+  assert.match(r.out, /^Contract\s+Side\s+Qty\s+Ccy\s+Current\s+Unreal P\/L\s+\+15% P\/L\s+-15% P\/L\s+Scen\. P\/L\s+DTE\s+Delta\s+Theta\/day$/m);
+  assert.match(r.out, /^CIFR Dec 19 2025 15C\s+Buy\s+2\s+USD\s+180\.00\s+-22\.60\s+4\.40\s+-49\.60\s+143\.42\s+18\s+94\.3\s+-6\.20$/m);
+  assert.match(r.out, /^IREN\s+Sell\s+-1\s+USD\s+—\s+-1\.30/m, "unpriced row shows dashes");
+  assert.match(r.out, /^Totals \(USD\)$/m);
+  assert.match(r.out, /^Unrealized P\/L\s+-23\.90$/m);
+  assert.match(r.out, /^Realized @ \+15%\s+4\.40$/m);
+});
+
+test("report as JSON", () => {
+  const r = run("report", fixture, "--now", "2025-12-01", "--format", "json");
+  assert.equal(r.code, 0);
+  const json = JSON.parse(r.out);
+  assert.equal(json.asOf, new Date("2025-12-01T12:00:00").toISOString(), "--now pins the valuation time at local noon");
+  assert.equal(json.settings.pct, 15);
+  assert.deepEqual(json.rows.map((x: any) => x.ticker), ["CIFR", "IREN"]);
+  assert.notProperty(json.rows[0], "id", "generated ids left out");
+  assert.closeTo(json.rows[0].curValue, 180, 1e-9);
+  assert.equal(json.rows[0].dte, 18);
+  assert.isNull(json.rows[1].curValue, "NaN → null");
+  assert.closeTo(json.totals.unrealNow, -23.9, 1e-9);
+  assert.deepEqual(json.missing, []);
+});
+
+test("report as our CSV export", () => {
+  const r = run("report", fixture, "--now", "2025-12-01", "--format", "csv");
+  assert.equal(r.code, 0);
+  const lines = r.out.split("\r\n");
+  assert.equal(lines.length, 4, "header, two rows, trailing line break");
+  assert.match(lines[0], /^Ticker,Contract,Expiration,Strike,Type,Contracts,EntryPrice,CurrentPrice,.*,CurrentValue,UnrealizedPL,/);
+  assert.match(lines[1], /^CIFR,CIFR Dec 19 2025 15C,2025-12-19,15\.00,C,2,1\.0000,0\.9000,"swing, earnings",.*,180\.00,-22\.60,/);
+  assert.match(lines[2], /^IREN,/);
+  assert.equal(lines[3], "");
+});
+
+test("unreadable file and bad options", () => {
+  const missing = run("report", "no-such-file.csv");
+  assert.equal(missing.code, 1);
+  assert.match(missing.err, /^cannot read no-such-file\.csv: ENOENT/);
+  assert.equal(missing.out, "");
+  const bad = run("report", fixture, "--format", "xml");
+  assert.equal(bad.code, 2);
+  assert.match(bad.err, /^--format must be table, json or csv, got "xml"/);
+});
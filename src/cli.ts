@@ -0,0 +1,196 @@
+#!/usr/bin/env node
+/**
+ * Command line: scenario reports without the browser
+ * --------------------------------------------
+ * - `zebra report <file.csv>` reads any file Import CSV understands (broker statements, our own export) and prints
+ *   the rows and totals the Portfolio page would show for it, as an aligned table, JSON or our CSV export.
+ * - Settings left out fall back to the app defaults (src/storage.ts). `--now` pins the valuation time so nightly
+ *   reports diff cleanly in CI.
+ * - Built with `npm run build:cli` into dist/cli/cli.js (package.json "bin": zebra).
+ */
+
+import { readFileSync, realpathSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { computePortfolio, rowsFromCSV, Totals } from "./core";
+import { csvColumns, exportCSV } from "./csvColumns";
+import { fixed } from "./format";
+import type { FxRates } from "./fx";
+import type { UnderlyingScenario } from "./scenario";
+import { defaultSettings, Settings, ValuationSettings } from "./storage";
+
+const USAGE = `Usage:
+  zebra report <file.csv> [options]
+
+Options:
+  --pct 15              premium move for the ±% columns
+  --rate 4.5            risk-free rate, %
+  --move 10             underlying scenario: every ticker moves by this %
+  --target CIFR=18      underlying scenario: per-ticker price (repeatable; replaces --move)
+  --days 0              scenario valuation this many days forward
+  --fee 0.65            fees per contract for rows without their own
+  --base USD            currency of the totals
+  --fx EUR=1.08         USD per unit of a currency (repeatable)
+  --broker zebra        force an import adapter (zebra, fidelity, schwab, ibkr, robinhood)
+  --now 2025-12-01      value as of this date (noon, local time) instead of now
+  --format table        table | json | csv`;
+
+class UsageError extends Error {}
+
+// ---------- arguments ----------
+type Args = { command: string; file: string; options: Map<string, string[]> };
+
+function parseArgs(argv: string[]): Args {
+  const [command = "", ...rest] = argv;
+  const positional: string[] = [];
+  const options = new Map<string, string[]>();
+  for (let i = 0; i < rest.length; i++) {
+    const a = rest[i];
+    if (!a.startsWith("--")) {
+      positional.push(a);
+      continue;
+    }
+    const eq = a.indexOf("=");
+    const key = a.slice(2, eq > 0 ? eq : undefined);
+    const value = eq > 0 ? a.slice(eq + 1) : rest[++i];
+    if (value === undefined) throw new UsageError(`--${key} needs a value`);
+    options.set(key, [...(options.get(key) ?? []), value]);
+  }
+  return { command, file: positional[0] ?? "", options };
+}
+
+const last = (args: Args, key: string) => args.options.get(key)?.slice(-1)[0];
+
+function numberArg(args: Args, key: string, fallback: number) {
+  const v = last(args, key);
+  if (v === undefined) return fallback;
+  const n = parseFloat(v);
+  if (!Number.isFinite(n)) throw new UsageError(`--${key} expects a number, got "${v}"`);
+  return n;
+}
+
+// repeatable KEY=number pairs (--target CIFR=18, --fx EUR=1.08)
+function pairsArg(args: Args, key: string) {
+  const out: Record<string, number> = {};
+  for (const pair of args.options.get(key) ?? []) {
+    const [k, v] = pair.split("=");
+    const n = parseFloat(v);
+    if (!k || !(n > 0)) throw new UsageError(`--${key} expects CODE=number, got "${pair}"`);
+    out[k.trim().toUpperCase()] = n;
+  }
+  return out;
+}
+
+function valuationOf(args: Args, d: Settings): ValuationSettings {
+  const targets = pairsArg(args, "target");
+  const scenario: UnderlyingScenario = {
+    mode: Object.keys(targets).length ? "target" : "move",
+    movePct: numberArg(args, "move", d.scenario.movePct),
+    targets,
+    days: Math.max(0, Math.round(numberArg(args, "days", d.scenario.days))),
+  };
+  const fxRates: FxRates = pairsArg(args, "fx");
+  return {
+    pct: numberArg(args, "pct", d.pct),
+    ratePct: numberArg(args, "rate", d.ratePct),
+    scenario,
+    feeSchedule: { ...d.feeSchedule, perContract: Math.max(0, numberArg(args, "fee", d.feeSchedule.perContract)) },
+    baseCurrency: (last(args, "base") ?? d.baseCurrency).toUpperCase(),
+    fxRates,
+  };
+}
+
+function nowArg(args: Args) {
+  const v = last(args, "now");
+  if (v === undefined) return Date.now();
+  const t = new Date(`${v}T12:00:00`).getTime();
+  if (!Number.isFinite(t)) throw new UsageError(`--now expects YYYY-MM-DD, got "${v}"`);
+  return t;
+}
+
+// ---------- report ----------
+const reportColumns: { header: (v: ValuationSettings) => string; value: (r: any) => string }[] = [
+  { header: () => "Contract", value: (r) => r.contract || r.ticker },
+  { header: () => "Side", value: (r) => (r.side === "short" ? "Sell" : "Buy") },
+  { header: () => "Qty", value: (r) => String(r.qty) },
+  { header: () => "Ccy", value: (r) => r.currency },
+  { header: () => "Current", value: (r) => fixed(r.curValue) },
+  { header: () => "Unreal P/L", value: (r) => fixed(r.unrealNow) },
+  { header: (v) => `+${v.pct}% P/L`, value: (r) => fixed(r.realizedPlus) },
+  { header: (v) => `-${v.pct}% P/L`, value: (r) => fixed(r.realizedMinus) },
+  { header: () => "Scen. P/L", value: (r) => fixed(r.scenPL) },
+  { header: () => "DTE", value: (r) => fixed(r.dte, 0) },
+  { header: () => "Delta", value: (r) => fixed(r.delta, 1) },
+  { header: () => "Theta/day", value: (r) => fixed(r.theta) },
+];
+
+const TOTALS: { key: keyof Totals; label: string }[] = [
+  { key: "curValue", label: "Current value" },
+  { key: "unrealNow", label: "Unrealized P/L" },
+  { key: "realizedPlus", label: "Realized @ +pct" },
+  { key: "realizedMinus", label: "Realized @ -pct" },
+  { key: "scenValue", label: "Scenario value" },
+  { key: "scenPL", label: "Scenario P/L" },
+  { key: "fees", label: "Fees" },
+  { key: "delta", label: "Net delta (shares)" },
+  { key: "theta", label: "Theta / day" },
+  { key: "vega", label: "Vega / vol pt" },
+];
+
+// text columns left-aligned, numbers right-aligned
+function alignTable(cells: string[][]) {
+  const widths = cells[0].map((_, i) => Math.max(...cells.map((row) => row[i].length)));
+  const numeric = (s: string) => /^-?[\d.]+$|^—$/.test(s);
+  return cells.map((row) => row.map((c, i) => (numeric(c) ? c.padStart(widths[i]) : c.padEnd(widths[i]))).join("  ").trimEnd()).join("\n");
+}
+
+function report(args: Args) {
+  if (!args.file) throw new UsageError("report needs a CSV file");
+  const format = last(args, "format") ?? "table";
+  if (!["table", "json", "csv"].includes(format)) throw new UsageError(`--format must be table, json or csv, got "${format}"`);
+  const valuation = valuationOf(args, defaultSettings());
+  const now = nowArg(args);
+
+  let text: string;
+  try {
+    text = readFileSync(args.file, "utf8");
+  } catch (e) {
+    console.error(`cannot read ${args.file}: ${e instanceof Error ? e.message : String(e)}`);
+    return 1;
+  }
+  const { rows, result } = rowsFromCSV(text, last(args, "broker"));
+  for (const e of result.errors) console.error(`line ${e.line}: ${e.reason}`);
+  if (!result.adapter) return 1;
+  const { rows: computed, totals, missing } = computePortfolio(rows, valuation, now);
+  if (missing.length) console.error(`no FX rate to ${valuation.baseCurrency} for ${missing.join(", ")}: those rows are left out of the totals`);
+
+  if (format === "csv") {
+    process.stdout.write(exportCSV(computed, csvColumns.map((c) => c.key), valuation));
+  } else if (format === "json") {
+    // NaN / Infinity → null; row ids are generated on import, so they're left out to keep runs comparable
+    const numbers = (r: any) => Object.fromEntries(Object.entries(r).filter(([k]) => k !== "id").map(([k, v]) => [k, typeof v === "number" && !Number.isFinite(v) ? null : v]));
+    console.log(JSON.stringify({ asOf: new Date(now).toISOString(), settings: valuation, rows: computed.map(numbers), totals: numbers(totals), missing }, null, 2));
+  } else {
+    const label = (l: string) => l.replace("pct", `${valuation.pct}%`);
+    console.log(`${result.adapter.label}, ${rows.length} position${rows.length === 1 ? "" : "s"}, as of ${new Date(now).toLocaleString()}\n`);
+    console.log(alignTable([reportColumns.map((c) => c.header(valuation)), ...computed.map((r) => reportColumns.map((c) => c.value(r)))]));
+    console.log(`\nTotals (${valuation.baseCurrency})`);
+    console.log(alignTable(TOTALS.map((t) => [label(t.label), fixed(totals[t.key], t.key === "delta" ? 1 : 2)])));
+  }
+  return 0;
+}
+
+export function main(argv: string[]) {
+  try {
+    const args = parseArgs(argv);
+    if (args.command === "report") return report(args);
+    console.error(USAGE);
+    return args.command ? 2 : 0;
+  } catch (e) {
+    if (!(e instanceof UsageError)) throw e;
+    console.error(`${e.message}\n\n${USAGE}`);
+    return 2;
+  }
+}
+
+// run as a program (node dist/cli/cli.js, the zebra bin), not when a test imports main
+if (process.argv[1] && realpathSync(process.argv[1]) === fileURLToPath(import.meta.url)) process.exit(main(process.argv.slice(2)));
@@ -0,0 +1,15 @@
+import { assert, test } from "vitest";
+import { multiplierOf, styleFor } from "./contractSpec";
+
+test("index roots default to European / cash", () => {
+  assert.equal(styleFor("spx").exercise, "european");
+  assert.equal(styleFor("SPX").settlement, "cash");
+  assert.equal(styleFor("CIFR").exercise, "american");
+});
+
+test("multiplier defaults to 100", () => {
+  assert.equal(multiplierOf({ multiplier: "10" }), 10);
+  assert.equal(multiplierOf({ multiplier: "" }), 100);
+  assert.equal(multiplierOf({}), 100);
+  assert.equal(multiplierOf({ multiplier: "-5" }), 100);
+});
@@ -0,0 +1,28 @@
+/**
+ * Contract specs: multiplier, exercise style, settlement
+ * --------------------------------------------
+ * - Multiplier defaults to 100 (US equity options); minis (10), adjusted contracts after splits (e.g. 150)
+ *   and index or foreign listings set their own.
+ * - American rows get a binomial theo with early exercise (src/pricing.ts); European rows plain Black-Scholes.
+ * - Settlement only changes what happens at expiry: cash pays intrinsic, physical delivers the underlying.
+ * - Well-known cash-settled index roots (SPX, NDX, RUT, VIX, ...) default to European / cash when a contract is parsed.
+ */
+
+export type Exercise = "american" | "european";
+export type Settlement = "physical" | "cash";
+
+export const DEFAULT_MULTIPLIER = 100;
+
+const EUROPEAN_CASH = new Set(["SPX", "SPXW", "XSP", "NDX", "NDXP", "RUT", "RUTW", "MRUT", "VIX", "VIXW", "DJX", "XEO"]);
+
+export const styleFor = (ticker: string): { exercise: Exercise; settlement: Settlement } =>
+  EUROPEAN_CASH.has((ticker ?? "").trim().toUpperCase()) ? { exercise: "european", settlement: "cash" } : { exercise: "american", settlement: "physical" };
+
+export const multiplierOf = (row: { multiplier?: string | number }) => {
+  const n = typeof row.multiplier === "number" ? row.multiplier : parseFloat(row.multiplier ?? "");
+  return n > 0 ? n : DEFAULT_MULTIPLIER;
+};
+
+export const exerciseOf = (row: { exercise?: string }): Exercise => (row.exercise === "european" ? "european" : "american");
+
+export const settlementOf = (row: { settlement?: string }): Settlement => (row.settlement === "cash" ? "cash" : "physical");
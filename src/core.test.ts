@@ -0,0 +1,81 @@
+import { assert, test } from "vitest";
+import { computePortfolio, computeRow, rowsFromCSV } from "./core";
+import { upgradeRow, ValuationSettings } from "./storage";
+
+const t = computeRow(1.0, 1.72, 2, 15, "C", 15);
+
+test("±X% prices and current value", () => {
+  assert.closeTo(t.plusPrice as number, 1.978, 1e-9, "plusPrice 15% of 1.72 ≈ 1.978");
+  assert.closeTo(t.minusPrice as number, 1.462, 1e-9, "minusPrice 15% of 1.72 ≈ 1.462");
+  assert.closeTo(t.curValue as number, 344, 1e-9, "curValue 1.72 * 2 * 100 = 344");
+  assert.isNaN(t.delta, "no pricing model → Greeks are NaN");
+});
+
+test("Greeks from the pricing model", () => {
+  const g = computeRow(1.0, 1.72, 2, 15, "C", 15, { underlying: 15, expiration: "2025-12-19", iv: 0.8, rate: 0.045, now: new Date(2025, 11, 19, 16).getTime() - 36.5 * 864e5 });
+  assert.closeTo(g.delta / 200, 0.5574, 0.001, "ATM call, 0.1y, 80% IV → delta ≈ 0.557 per share");
+});
+
+test("scenario past expiry settles at intrinsic", () => {
+  const x = computeRow(1.0, 1.72, 2, 15, "C", 15, { underlying: 15, expiration: "2025-12-19", iv: 0.8, rate: 0.045, scenarioUnderlying: 18, scenarioNow: new Date(2025, 11, 20).getTime() });
+  assert.closeTo(x.scenPrice, 3, 1e-9, "intrinsic 3.00");
+  assert.closeTo(x.scenPL, 400, 1e-9, "P/L (3 - 1) * 200 = 400");
+});
+
+test("short 2 @ 1.00, now 1.72", () => {
+  const s = computeRow(1.0, 1.72, -2, 15, "C", 15);
+  assert.closeTo(s.curValue, -344, 1e-9, "value -344");
+  assert.closeTo(s.unrealNow, -144, 1e-9, "P/L -144");
+});
+
+test("fees come off P/L, not value", () => {
+  const f = computeRow(1.0, 1.72, 2, 15, "C", 15, undefined, 2.6);
+  assert.closeTo(f.unrealNow, 141.4, 1e-9, "144 - 2.60 = 141.40");
+  assert.closeTo(f.curValue, 344, 1e-9, "value unchanged");
+  assert.closeTo(f.realizedPlus, t.realizedPlus - 2.6, 1e-9, "realized @ +X% net of fees");
+  assert.closeTo(f.realizedMinus, t.realizedMinus - 2.6, 1e-9, "realized @ -X% net of fees");
+});
+
+test("multiplier and exercise style", () => {
+  const mini = computeRow(1.0, 1.72, 2, 15, "C", 15, undefined, 0, 10);
+  assert.closeTo(mini.curValue, 34.4, 1e-9, "multiplier 10: value 1.72 * 2 * 10 = 34.40");
+  assert.closeTo(mini.unrealNow, 14.4, 1e-9, "multiplier 10: P/L 0.72 * 2 * 10 = 14.40");
+  const put = { underlying: 40, expiration: "2025-12-19", iv: 0.3, rate: 0.1, now: new Date(2025, 11, 19, 16).getTime() - 365 * 864e5 };
+  const am = computeRow(1.0, 5, 1, 50, "P", 15, { ...put, exercise: "american" });
+  const eu = computeRow(1.0, 5, 1, 50, "P", 15, { ...put, exercise: "european" });
+  assert.isAtLeast(am.theo, 10, "deep ITM American put worth at least intrinsic");
+  assert.isAbove(am.theo, eu.theo, "American above European");
+  assert.closeTo(am.delta, eu.delta, 1e-9, "Greeks stay Black-Scholes");
+});
+
+const valuation: ValuationSettings = {
+  pct: 15,
+  ratePct: 4.5,
+  scenario: { mode: "move", movePct: 10, targets: {}, days: 0 },
+  feeSchedule: { perContract: 0, perOrder: 0, minPerOrder: 0 },
+  baseCurrency: "USD",
+  fxRates: { EUR: 1.1 },
+};
+
+test("portfolio totals in the base currency", () => {
+  const book = [
+    upgradeRow({ id: "u", ticker: "CIFR", strike: "15", contracts: "2", entryPrice: "1", currentPrice: "1.72", fees: "0" }),
+    upgradeRow({ id: "e", ticker: "SAP", strike: "200", contracts: "1", entryPrice: "5", currentPrice: "6", fees: "0", currency: "EUR", multiplier: "10" }),
+    upgradeRow({ id: "c", ticker: "SHOP", strike: "90", contracts: "1", entryPrice: "1", currentPrice: "2", fees: "0", currency: "CAD" }),
+  ];
+  const p = computePortfolio(book, valuation);
+  assert.closeTo(p.rows[1].curValue, 60, 1e-9, "row values stay in the row's currency");
+  assert.equal(p.rows[1].fx, 1.1, "EUR row converts at 1.10");
+  assert.closeTo(p.totals.curValue, 344 + 66, 1e-9, "totals in USD");
+  assert.deepEqual(p.missing, ["CAD"], "CAD has no rate and is left out");
+  assert.closeTo(computePortfolio(book, { ...valuation, baseCurrency: "EUR" }).totals.curValue, 344 / 1.1 + 60, 1e-9, "switching the base converts through USD");
+});
+
+test("own CSV export read back into stored rows", () => {
+  const csv = rowsFromCSV("Ticker,Contract,Expiration,Strike,Type,Contracts,EntryPrice,CurrentPrice,Side\r\nCIFR,CIFR Dec 19 2025 15C,2025-12-19,15,C,2,1.00,1.72,short\r\n");
+  assert.equal(csv.result.adapter?.key, "zebra");
+  assert.equal(csv.rows.length, 1);
+  assert.equal(csv.rows[0].side, "short");
+  assert.equal(csv.rows[0].currency, "USD");
+  assert.closeTo(computePortfolio(csv.rows, valuation).totals.unrealNow, -144, 1e-9, "short 2 @ 1.00, now 1.72 → -144");
+});
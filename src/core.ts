@@ -0,0 +1,174 @@
+/**
+ * Portfolio core: row pricing, portfolio totals, CSV in
+ * --------------------------------------------
+ * - No React and no browser APIs: the UI (src/App.tsx) and the command line (src/cli.ts) call the same functions,
+ *   so a report prints exactly the numbers the table shows.
+ * - Rows are the stored string-field rows (src/storage.ts); computed rows add numbers on top (qty, values, P/L,
+ *   Greeks, dte, fx) and keep every original field.
+ * - Money on a computed row is in the row's currency; totals are in the base currency (src/fx.ts).
+ */
+
+import { ImportResult, positionToRow, runImport } from "./brokers/index";
+import { Exercise, exerciseOf, multiplierOf } from "./contractSpec";
+import { numberOr } from "./format";
+import { currencyOf, fxRate, missingRates } from "./fx";
+import { costBasis, orderFee, rowLots } from "./lots";
+import { americanValue, blackScholes, daysToExpiry, impliedVol, yearsToExpiry } from "./pricing";
+import { scenarioNow, scenarioUnderlying } from "./scenario";
+import { upgradeRow, ValuationSettings } from "./storage";
+import { signedContracts } from "./strategy";
+
+// ---------- rows ----------
+export type PricingModel = {
+  underlying: number;
+  expiration: string;
+  iv: number; // decimal; NaN = imply from currentPrice
+  rate: number; // decimal
+  now?: number;
+  scenarioUnderlying?: number;
+  scenarioNow?: number;
+  exercise?: Exercise; // european when unset; american theo / scenario price come from the binomial tree
+};
+
+// pure compute helper (used both by UI and tests); contracts < 0 = short position
+export function computeRow(
+  entryPrice: number,
+  currentPrice: number,
+  contracts: number,
+  strike: number,
+  type: "C" | "P",
+  pct: number,
+  model?: PricingModel,
+  fees = 0, // $ to open + est. to close, taken off every P/L
+  multiplier = 100 // shares per contract
+) {
+  const m = multiplier;
+  const p = pct / 100;
+  const plusPrice = currentPrice > 0 ? currentPrice * (1 + p) : NaN;
+  const minusPrice = currentPrice > 0 ? currentPrice * (1 - p) : NaN;
+  const curValue = currentPrice > 0 && contracts !== 0 ? currentPrice * contracts * m : NaN;
+  const plusValue = Number.isFinite(plusPrice) && contracts !== 0 ? (plusPrice as number) * contracts * m : NaN;
+  const minusValue = Number.isFinite(minusPrice) && contracts !== 0 ? (minusPrice as number) * contracts * m : NaN;
+  const unrealNow = Number.isFinite(currentPrice) ? (currentPrice - entryPrice) * contracts * m - fees : NaN;
+  const realizedPlus = Number.isFinite(plusPrice) ? ((plusPrice as number) - entryPrice) * contracts * m - fees : NaN;
+  const realizedMinus = Number.isFinite(minusPrice) ? ((minusPrice as number) - entryPrice) * contracts * m - fees : NaN;
+  const breakevenStock = type === "C" ? strike + entryPrice : strike - entryPrice;
+
+  // Black-Scholes theo + position Greeks (NaN when the model inputs are incomplete)
+  const years = model ? yearsToExpiry(model.expiration, model.now) : NaN;
+  const base = { underlying: model?.underlying ?? NaN, strike, years, type, rate: model?.rate ?? 0 };
+  const modelIv = model && Number.isFinite(model.iv) && model.iv > 0 ? model.iv : impliedVol(currentPrice, base);
+  const g = blackScholes({ ...base, iv: modelIv });
+  const size = contracts * m;
+  const american = model?.exercise === "american";
+  const theo = american ? americanValue({ ...base, iv: modelIv }) : g.value;
+  const delta = g.delta * size;
+  const gamma = g.gamma * size;
+  const theta = g.theta * size;
+  const vega = g.vega * size;
+  const rho = g.rho * size;
+
+  // underlying scenario: same IV, scenario spot, valuation date rolled forward (intrinsic once expired)
+  const scenYears = model ? yearsToExpiry(model.expiration, model.scenarioNow ?? model.now) : NaN;
+  const scenInput = { ...base, underlying: model?.scenarioUnderlying ?? NaN, years: scenYears, iv: scenYears > 0 ? modelIv : 0 };
+  const scenPrice = american ? americanValue(scenInput) : blackScholes(scenInput).value;
+  const scenValue = Number.isFinite(scenPrice) && contracts !== 0 ? scenPrice * contracts * m : NaN;
+  const scenPL = Number.isFinite(scenPrice) ? (scenPrice - entryPrice) * contracts * m - fees : NaN;
+
+  return {
+    plusPrice,
+    minusPrice,
+    curValue,
+    plusValue,
+    minusValue,
+    unrealNow,
+    realizedPlus,
+    realizedMinus,
+    breakevenStock,
+    modelIv,
+    theo,
+    delta,
+    gamma,
+    theta,
+    vega,
+    rho,
+    scenPrice,
+    scenValue,
+    scenPL,
+    feesTotal: fees,
+  };
+}
+
+// ---------- portfolio ----------
+export type Totals = {
+  curValue: number;
+  scenValue: number;
+  scenPL: number;
+  unrealNow: number;
+  plusValue: number;
+  minusValue: number;
+  realizedPlus: number;
+  realizedMinus: number;
+  delta: number;
+  gamma: number;
+  theta: number;
+  vega: number;
+  rho: number;
+  fees: number;
+};
+
+// every row through computeRow (short legs signed, in its own currency) plus portfolio totals in the base currency
+export function computePortfolio(rows: any[], valuation: ValuationSettings, now = Date.now()) {
+  const { pct, ratePct, scenario, feeSchedule: schedule, baseCurrency, fxRates } = valuation;
+  const withCalcs = rows.map((row: any) => {
+    const entry = numberOr(row.entryPrice);
+    const cur = numberOr(row.currentPrice);
+    const qty = signedContracts(numberOr(row.contracts, 0), row.side);
+    const strike = numberOr(row.strike);
+    const model = {
+      underlying: numberOr(row.underlying, NaN),
+      expiration: row.expiration,
+      iv: numberOr(row.iv, NaN) / 100,
+      rate: ratePct / 100,
+      now,
+      scenarioUnderlying: scenarioUnderlying(row.ticker, numberOr(row.underlying, NaN), scenario),
+      scenarioNow: scenarioNow(scenario, now),
+      exercise: exerciseOf(row),
+    };
+    const fees = costBasis(rowLots(row, schedule)).fees + orderFee(schedule, Math.abs(qty));
+    const res = computeRow(entry, cur, qty, strike, (row.type as "C" | "P") || "C", pct, model, fees, multiplierOf(row));
+    return { ...row, ...res, qty, dte: daysToExpiry(row.expiration, now), fx: fxRate(currencyOf(row), baseCurrency, fxRates) };
+  });
+
+  // money converts at the row's FX rate (NaN → left out); delta and gamma stay in shares
+  const totals = withCalcs.reduce(
+    (acc: Record<string, number>, r: any) => {
+      acc.curValue += numberOr(r.curValue * r.fx, 0);
+      acc.scenValue += numberOr(r.scenValue * r.fx, 0);
+      acc.scenPL += numberOr(r.scenPL * r.fx, 0);
+      acc.unrealNow += numberOr(r.unrealNow * r.fx, 0);
+      acc.plusValue += numberOr(r.plusValue * r.fx, 0);
+      acc.minusValue += numberOr(r.minusValue * r.fx, 0);
+      acc.realizedPlus += numberOr(r.realizedPlus * r.fx, 0);
+      acc.realizedMinus += numberOr(r.realizedMinus * r.fx, 0);
+      acc.delta += numberOr(r.delta, 0);
+      acc.gamma += numberOr(r.gamma, 0);
+      acc.theta += numberOr(r.theta * r.fx, 0);
+      acc.vega += numberOr(r.vega * r.fx, 0);
+      acc.rho += numberOr(r.rho * r.fx, 0);
+      acc.fees += numberOr(r.feesTotal * r.fx, 0);
+      return acc;
+    },
+    { curValue: 0, scenValue: 0, scenPL: 0, unrealNow: 0, plusValue: 0, minusValue: 0, realizedPlus: 0, realizedMinus: 0, delta: 0, gamma: 0, theta: 0, vega: 0, rho: 0, fees: 0 }
+  );
+
+  return { rows: withCalcs, totals: totals as Totals, missing: missingRates(rows.map(currencyOf), baseCurrency, fxRates) };
+}
+
+// ---------- CSV in ----------
+// any supported broker file or our own export → stored rows (same path as Import CSV, minus the preview)
+export function rowsFromCSV(text: string, adapterKey?: string): { rows: Record<string, any>[]; result: ImportResult } {
+  const result = runImport(text, adapterKey);
+  const source = result.adapter?.label ?? "CSV";
+  return { rows: result.positions.map((p) => upgradeRow(positionToRow(p, upgradeRow({}) as any, source))), result };
+}
@@ -0,0 +1,26 @@
+import { assert, test } from "vitest";
+import { detectDelimiter, readCSV, writeCSV } from "./csv";
+
+test("reader: BOM, blank lines, quotes and embedded newlines", () => {
+  const r = readCSV('\uFEFFa,b\r\n"x, y","say ""hi""\nthere"\n\n1,2');
+  assert.equal(r.length, 3, "BOM dropped, blank lines skipped");
+  assert.deepEqual(r[1].cells, ["x, y", 'say "hi"\nthere'], "quotes, escapes and embedded newlines");
+  assert.equal(r[2].line, 5, "records keep their starting line");
+  assert.deepEqual(r[2].cells, ["1", "2"]);
+});
+
+const tricky = [["Notes", "Strike"], ['said "hold"\nthen sold', "15,5"], [" padded ", null]];
+
+test("writer quotes quotes, commas, newlines and padding", () => {
+  const out = writeCSV(tricky);
+  assert.equal(out, 'Notes,Strike\r\n"said ""hold""\nthen sold","15,5"\r\n" padded ",\r\n');
+  assert.deepEqual(readCSV(out).map((x) => x.cells), [["Notes", "Strike"], ['said "hold"\nthen sold', "15,5"], [" padded ", ""]], "write → read round trip");
+});
+
+test("delimiter detection", () => {
+  const semi = writeCSV(tricky, ";");
+  assert.equal(detectDelimiter(semi), ";");
+  assert.equal(readCSV(semi)[1].cells[1], "15,5", "semicolon files: commas stay inside cells");
+  assert.equal(detectDelimiter('"a;b",c\nx;y;z;w'), ",", "delimiter taken from the first line, quotes ignored");
+  assert.equal(detectDelimiter("Positions\r\n\r\nTicker;Strike\r\nCIFR;15,5"), ";", "banner lines skipped");
+});
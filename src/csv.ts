@@ -0,0 +1,76 @@
+/**
+ * CSV reader / writer (RFC 4180)
+ * --------------------------------------------
+ * - Quoted fields, "" escapes and newlines inside quotes; a leading BOM is dropped.
+ * - "," or ";" delimited (European spreadsheets); the reader picks whichever the header line uses.
+ * - Each record keeps the 1-based line it started on, so import errors can point at the file.
+ * - The writer quotes only what needs it and ends lines with CRLF, as the RFC asks.
+ */
+
+export type CsvRecord = { line: number; cells: string[] };
+
+export type CsvDelimiter = "," | ";";
+
+// whichever delimiter the first line that has any uses more often (quoted text doesn't count);
+// title lines without delimiters (broker statement banners) are skipped
+export function detectDelimiter(text: string): CsvDelimiter {
+  const counts = { ",": 0, ";": 0 };
+  let quoted = false;
+  for (const ch of text) {
+    if (ch === '"') quoted = !quoted;
+    else if (!quoted && (ch === "," || ch === ";")) counts[ch]++;
+    else if (!quoted && ch === "\n" && counts[","] + counts[";"] > 0) break;
+  }
+  return counts[";"] > counts[","] ? ";" : ",";
+}
+
+export function readCSV(text: string, delimiter: string = detectDelimiter(text)): CsvRecord[] {
+  const src = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const out: CsvRecord[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+
+  const endRecord = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0].trim() !== "") out.push({ line: start, cells });
+    cells = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') quoted = false;
+      else {
+        if (ch === "\n") line++;
+        cell += ch;
+      }
+    } else if (ch === '"' && cell.trim() === "") {
+      cell = "";
+      quoted = true;
+    } else if (ch === delimiter) {
+      cells.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      endRecord();
+      line++;
+      start = line;
+    } else cell += ch;
+  }
+  if (cell !== "" || cells.length) endRecord();
+  return out;
+}
+
+const quoteCell = (cell: string, delimiter: string) =>
+  cell.includes('"') || cell.includes(delimiter) || /[\r\n]/.test(cell) || cell !== cell.trim() ? `"${cell.replace(/"/g, '""')}"` : cell;
+
+export function writeCSV(records: (string | number | null | undefined)[][], delimiter: CsvDelimiter = ",") {
+  return records.map((cells) => cells.map((c) => quoteCell(c == null ? "" : String(c), delimiter)).join(delimiter)).join("\r\n") + "\r\n";
+}
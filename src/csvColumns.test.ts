@@ -0,0 +1,14 @@
+import { assert, test } from "vitest";
+import { CsvContext, defaultCsvColumns, exportCSV } from "./csvColumns";
+
+test("picked + computed columns, quotes kept, NaN → empty", () => {
+  const ctx: CsvContext = { pct: 15, scenario: { mode: "move", movePct: 10, targets: {}, days: 0 } };
+  const row = { ticker: "CIFR", contract: "CIFR Dec 19 2025 15C", notes: 'roll "if" needed', underlying: "14.50", curValue: 180, unrealNow: -20, plusValue: NaN };
+  const out = exportCSV([row], ["ticker", "notes", "curValue", "plusValue", "scenUnderlying"], ctx);
+  assert.equal(out, 'Ticker,Notes,CurrentValue,ValuePlus15,ScenarioUnderlying\r\nCIFR,"roll ""if"" needed",180.00,,15.95\r\n');
+});
+
+test("default export = position fields", () => {
+  assert.equal(defaultCsvColumns.length, 18);
+  assert.equal(defaultCsvColumns[0], "ticker");
+});
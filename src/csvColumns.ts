@@ -0,0 +1,81 @@
+/**
+ * CSV export columns
+ * --------------------------------------------
+ * - Position fields come first, under the header names the importer maps back (Ticker, Contract, EntryPrice, ...).
+ * - Computed columns (values, P/L, breakeven, scenario, Greeks) are plain numbers with no currency signs,
+ *   so a spreadsheet can sum them; they are ignored when the file is imported again.
+ * - Missing / not computable values are written as empty cells.
+ */
+
+import { CsvDelimiter, writeCSV } from "./csv";
+import { scenarioUnderlying, UnderlyingScenario } from "./scenario";
+
+export type CsvContext = { pct: number; scenario: UnderlyingScenario };
+
+export type CsvColumn = {
+  key: string;
+  header: (ctx: CsvContext) => string;
+  computed: boolean;
+  value: (r: any, ctx: CsvContext) => string;
+};
+
+const num = (digits: number) => (v: unknown) => (typeof v === "number" && Number.isFinite(v) ? v.toFixed(digits) : "");
+const money = num(2);
+
+const field = (key: string, header: string): CsvColumn => ({ key, header: () => header, computed: false, value: (r) => (r[key] == null ? "" : String(r[key])) });
+
+const calc = (key: string, header: string | ((ctx: CsvContext) => string), value: (r: any, ctx: CsvContext) => string): CsvColumn => ({
+  key,
+  header: typeof header === "string" ? () => header : header,
+  computed: true,
+  value,
+});
+
+export const csvColumns: CsvColumn[] = [
+  field("ticker", "Ticker"),
+  field("contract", "Contract"),
+  field("expiration", "Expiration"),
+  field("strike", "Strike"),
+  field("type", "Type"),
+  field("contracts", "Contracts"),
+  field("entryPrice", "EntryPrice"),
+  field("currentPrice", "CurrentPrice"),
+  field("notes", "Notes"),
+  field("underlying", "Underlying"),
+  field("iv", "IV"),
+  field("side", "Side"),
+  field("openDate", "OpenDate"),
+  field("fees", "Fees"),
+  field("multiplier", "Multiplier"),
+  field("exercise", "Exercise"),
+  field("settlement", "Settlement"),
+  field("currency", "Currency"),
+  calc("curValue", "CurrentValue", (r) => money(r.curValue)),
+  calc("unrealNow", "UnrealizedPL", (r) => money(r.unrealNow)),
+  calc("plusPrice", (c) => `PricePlus${c.pct}`, (r) => num(4)(r.plusPrice)),
+  calc("minusPrice", (c) => `PriceMinus${c.pct}`, (r) => num(4)(r.minusPrice)),
+  calc("plusValue", (c) => `ValuePlus${c.pct}`, (r) => money(r.plusValue)),
+  calc("minusValue", (c) => `ValueMinus${c.pct}`, (r) => money(r.minusValue)),
+  calc("realizedPlus", (c) => `RealizedPlus${c.pct}`, (r) => money(r.realizedPlus)),
+  calc("realizedMinus", (c) => `RealizedMinus${c.pct}`, (r) => money(r.realizedMinus)),
+  calc("dte", "DTE", (r) => num(0)(r.dte)),
+  calc("breakevenStock", "Breakeven", (r) => money(r.breakevenStock)),
+  calc("scenUnderlying", "ScenarioUnderlying", (r, c) => money(scenarioUnderlying(r.ticker, parseFloat(r.underlying), c.scenario))),
+  calc("scenPrice", "ScenarioPrice", (r) => num(4)(r.scenPrice)),
+  calc("scenValue", "ScenarioValue", (r) => money(r.scenValue)),
+  calc("scenPL", "ScenarioPL", (r) => money(r.scenPL)),
+  calc("theo", "Theo", (r) => num(4)(r.theo)),
+  calc("delta", "Delta", (r) => num(2)(r.delta)),
+  calc("gamma", "Gamma", (r) => num(4)(r.gamma)),
+  calc("theta", "Theta", (r) => money(r.theta)),
+  calc("vega", "Vega", (r) => money(r.vega)),
+  calc("rho", "Rho", (r) => money(r.rho)),
+];
+
+export const defaultCsvColumns = csvColumns.filter((c) => !c.computed).map((c) => c.key);
+
+// rows are computed rows (see computePortfolio in src/core.ts); columns follow the registry order, not the pick order
+export function exportCSV(rows: any[], keys: string[], ctx: CsvContext, delimiter: CsvDelimiter = ",") {
+  const picked = csvColumns.filter((c) => keys.includes(c.key));
+  return writeCSV([picked.map((c) => c.header(ctx)), ...rows.map((r) => picked.map((c) => c.value(r, ctx)))], delimiter);
+}
@@ -0,0 +1,36 @@
+import { assert, test } from "vitest";
+import { decayTimeline, expiryStatus, expiryWeek, groupByExpiryWeek } from "./expiry";
+
+test("expiry status by DTE", () => {
+  assert.equal(expiryStatus(-1), "expired");
+  assert.equal(expiryStatus(0), "today");
+  assert.equal(expiryStatus(7), "soon");
+  assert.equal(expiryStatus(8), "open");
+  assert.equal(expiryStatus(NaN), "unknown");
+});
+
+test("weeks start on Monday", () => {
+  assert.equal(expiryWeek("2025-12-19"), "2025-12-15");
+  assert.equal(expiryWeek("2025-12-21"), "2025-12-15");
+  assert.equal(expiryWeek("2025-12-22"), "2025-12-22");
+  assert.equal(expiryWeek(""), "");
+});
+
+test("groups sorted by week, undated last", () => {
+  const groups = groupByExpiryWeek([{ expiration: "2026-01-16" }, { expiration: "" }, { expiration: "2025-12-19" }, { expiration: "2025-12-17" }]);
+  assert.deepEqual(groups.map((g) => g.week), ["2025-12-15", "2026-01-12", ""]);
+  assert.equal(groups[0].rows[0].expiration, "2025-12-17");
+});
+
+test("decay timeline", () => {
+  const now = new Date(2025, 11, 12, 10).getTime();
+  const line = decayTimeline({ underlying: 15, strike: 15, type: "C", expiration: "2025-12-19", iv: 0.8, rate: 0.045, contracts: 2 }, now);
+  assert.equal(line.length, 8, "one point per day through expiration day");
+  assert.equal(line[0].date, "2025-12-12");
+  assert.equal(line[7].date, "2025-12-19");
+  assert.equal(line[7].dte, 0);
+  assert.isTrue(line.every((p, i) => i === 0 || p.price < line[i - 1].price), "ATM value decays");
+  assert.equal(line[7].price, 0, "to zero intrinsic");
+  assert.closeTo(line[0].value, line[0].price * 200, 1e-9, "value = price × contracts × 100");
+  assert.equal(decayTimeline({ underlying: 15, strike: 15, type: "C", expiration: "2025-12-11", iv: 0.8, rate: 0, contracts: 1 }, now).length, 0, "expired → no projection");
+});
@@ -0,0 +1,77 @@
+/**
+ * Expirations: DTE status, expiry weeks, time-decay projection
+ * --------------------------------------------
+ * - Status comes from calendar days to expiry (src/pricing.ts daysToExpiry): expired, expiring today,
+ *   this week (≤ 7 days), open, or unknown when the row has no valid expiration date.
+ * - Weeks run Monday → Sunday and are keyed by the Monday's YYYY-MM-DD, so they sort as strings.
+ * - The decay timeline reprices one position once per day from today to expiry with the underlying
+ *   and IV held constant; the last point is the 4pm close on expiration day (intrinsic only).
+ */
+
+import { blackScholes, daysToExpiry, expiryTime, OptionType, yearsToExpiry } from "./pricing";
+
+export type ExpiryStatus = "unknown" | "expired" | "today" | "soon" | "open";
+
+export const SOON_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function expiryStatus(dte: number): ExpiryStatus {
+  if (!Number.isFinite(dte)) return "unknown";
+  if (dte < 0) return "expired";
+  if (dte === 0) return "today";
+  return dte <= SOON_DAYS ? "soon" : "open";
+}
+
+const iso = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+
+// Monday of the expiration's week ("" when the date is unset / invalid)
+export function expiryWeek(expiration: string) {
+  const close = expiryTime(expiration);
+  if (!Number.isFinite(close)) return "";
+  const d = new Date(close);
+  d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  return iso(d);
+}
+
+export type ExpiryGroup<T> = { week: string; rows: T[] };
+
+// rows grouped by expiration week, earliest first; rows without a date go last under week ""
+export function groupByExpiryWeek<T extends { expiration: string }>(rows: T[]): ExpiryGroup<T>[] {
+  const groups = new Map<string, T[]>();
+  for (const r of rows) {
+    const week = expiryWeek(r.expiration);
+    groups.set(week, [...(groups.get(week) ?? []), r]);
+  }
+  return Array.from(groups, ([week, rows]) => ({ week, rows: rows.slice().sort((a, b) => (a.expiration < b.expiration ? -1 : a.expiration > b.expiration ? 1 : 0)) })).sort(
+    (a, b) => (!a.week ? 1 : !b.week ? -1 : a.week < b.week ? -1 : 1)
+  );
+}
+
+export type DecayInput = {
+  underlying: number;
+  strike: number;
+  type: OptionType;
+  expiration: string;
+  iv: number; // decimal
+  rate: number; // decimal
+  contracts: number; // signed, short < 0
+  multiplier?: number; // 100 when unset
+};
+
+export type DecayPoint = { day: number; date: string; dte: number; price: number; value: number };
+
+// one point per calendar day, today first; empty when the inputs can't be priced or the option already expired
+export function decayTimeline(input: DecayInput, now = Date.now()): DecayPoint[] {
+  const dte = daysToExpiry(input.expiration, now);
+  const close = expiryTime(input.expiration);
+  if (!(dte >= 0) || close < now || !(input.underlying > 0) || !(input.strike > 0) || !(input.iv > 0)) return [];
+  const points: DecayPoint[] = [];
+  for (let day = 0; day <= dte; day++) {
+    const at = day === dte ? close : now + day * DAY_MS;
+    const years = yearsToExpiry(input.expiration, at);
+    const price = blackScholes({ underlying: input.underlying, strike: input.strike, years, type: input.type, iv: years > 0 ? input.iv : 0, rate: input.rate }).value;
+    points.push({ day, date: iso(new Date(at)), dte: dte - day, price, value: price * input.contracts * (input.multiplier ?? 100) });
+  }
+  return points;
+}
@@ -0,0 +1,17 @@
+// ---------- formatting helpers (shared by App and the chart components) ----------
+// ISO 4217 code; an unknown code still shows the amount, prefixed with the code
+export const currency = (n: number | undefined | null, code = "USD") => {
+  if (!Number.isFinite(n as number)) return "—";
+  try {
+    return (n as number).toLocaleString(undefined, { style: "currency", currency: code || "USD" });
+  } catch {
+    return `${code} ${(n as number).toFixed(2)}`;
+  }
+};
+
+export const numberOr = (v: unknown, fallback = 0) => {
+  const n = typeof v === "string" ? parseFloat(v) : (v as number);
+  return Number.isFinite(n) ? (n as number) : fallback;
+};
+
+export const fixed = (n: number | undefined | null, digits = 2) => (Number.isFinite(n as number) ? (n as number).toFixed(digits) : "—");
@@ -0,0 +1,24 @@
+import { assert, test } from "vitest";
+import { currencyOf, fxRate, FxRates, missingRates } from "./fx";
+
+const rates: FxRates = { EUR: 1.08, GBP: 1.26 };
+
+test("EUR → USD straight from the table", () => {
+  assert.equal(fxRate("EUR", "USD", rates), 1.08);
+  assert.equal(fxRate("USD", "USD", {}), 1);
+});
+
+test("crosses go through USD", () => {
+  assert.closeTo(fxRate("GBP", "EUR", rates), 1.26 / 1.08, 1e-12);
+  assert.closeTo(fxRate("USD", "EUR", rates), 1 / 1.08, 1e-12);
+});
+
+test("missing rates reported once", () => {
+  assert.isNaN(fxRate("CHF", "USD", rates));
+  assert.deepEqual(missingRates(["USD", "CHF", "EUR", "CHF"], "EUR", rates), ["CHF"]);
+});
+
+test("codes normalized, USD by default", () => {
+  assert.equal(currencyOf({ currency: " eur" }), "EUR");
+  assert.equal(currencyOf({}), "USD");
+});
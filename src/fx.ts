@@ -0,0 +1,24 @@
+/**
+ * Currencies + FX
+ * --------------------------------------------
+ * - Every row carries an ISO 4217 currency code (default USD); money on the row stays in that currency.
+ * - The user types FX rates as "1 <CODE> = x USD"; converting between any two codes goes through USD,
+ *   so switching the base currency doesn't invalidate the table.
+ * - A currency without a rate can't be converted (NaN); callers leave it out of totals and say so.
+ */
+
+export type FxRates = Record<string, number>; // USD per 1 unit of the code
+
+export const CURRENCIES = ["USD", "EUR", "GBP", "CHF", "JPY", "CAD", "AUD", "HKD", "SEK", "NOK", "DKK", "SGD"];
+
+export const currencyOf = (row: { currency?: string }) => (row.currency || "USD").trim().toUpperCase();
+
+const usdPer = (code: string, rates: FxRates) => (code === "USD" ? 1 : rates[code] > 0 ? rates[code] : NaN);
+
+// units of `to` for one unit of `from`
+export const fxRate = (from: string, to: string, rates: FxRates) => (from === to ? 1 : usdPer(from, rates) / usdPer(to, rates));
+
+// codes used by the rows that have no rate to the base currency
+export function missingRates(codes: string[], base: string, rates: FxRates) {
+  return Array.from(new Set(codes)).filter((c) => !Number.isFinite(fxRate(c, base, rates)));
+}
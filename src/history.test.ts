@@ -0,0 +1,60 @@
+import { assert, test } from "vitest";
+import { appendHistory, describeChange, diffRows, emptyUndo, pushUndo, redo, sanitizeHistory, undo } from "./history";
+
+const a = { id: "a", ticker: "CIFR", currentPrice: "1.2", lots: [{ id: "l1" }, { id: "l2" }] };
+const b = { id: "b", ticker: "IREN", currentPrice: "" };
+const before = [a, b];
+const after = [{ ...a, currentPrice: "1.35", lots: [{ id: "l1" }, { id: "l3" }, { id: "l4" }] }, { id: "c", ticker: "" }];
+const diffs = diffRows(before, after);
+
+test("field diffs, lots by count, added / removed rows", () => {
+  assert.deepEqual(diffs.map((d) => `${d.id}.${d.field}:${d.from}>${d.to}`), ["a.currentPrice:1.2>1.35", "a.lots:2 lots>3 lots", "c.row:>added", "b.row:>removed"]);
+  assert.equal(diffRows(before, before).length, 0, "nothing changed → no diffs");
+  assert.equal(diffRows(before, [{ ...a, lots: [{ id: "l1" }, { id: "l9" }] }, b])[0]?.field, "lots", "same lot count, different lots still logged");
+});
+
+test("history: typing coalesces, other sources don't, bad entries dropped", () => {
+  let h = appendHistory({}, [{ id: "a", field: "ticker", from: "", to: "C" }], "manual", 0);
+  h = appendHistory(h, [{ id: "a", field: "ticker", from: "C", to: "CI" }], "manual", 500);
+  h = appendHistory(h, [{ id: "a", field: "ticker", from: "CI", to: "CIF" }], "manual", 5000);
+  assert.deepEqual(h.a.map((e) => `${e.from}>${e.to}`), [">CI", "CI>CIF"], "typing coalesces within the window");
+  h = appendHistory(h, [{ id: "a", field: "ticker", from: "CIF", to: "CIFR" }], "quote", 5100);
+  assert.equal(h.a.length, 3, "other sources never coalesce");
+  assert.equal(h.a[2].source, "quote");
+
+  const clean = sanitizeHistory({ a: [...h.a, { at: "x", field: "ticker", from: "", to: "", source: "manual" }], gone: h.a }, ["a"]);
+  assert.equal(clean.a.length, 3, "bad entries dropped");
+  assert.notProperty(clean, "gone", "removed rows dropped");
+  assert.deepEqual(sanitizeHistory(null, ["a"]), {});
+});
+
+test("typed and erased → no change", () => {
+  const back = appendHistory(appendHistory({}, [{ id: "a", field: "notes", from: "", to: "x" }], "manual", 0), [{ id: "a", field: "notes", from: "x", to: "" }], "manual", 100);
+  assert.equal(back.a.length, 0);
+});
+
+test("undo step labels", () => {
+  assert.equal(describeChange(diffs, "quote"), "Quote refresh");
+  assert.equal(describeChange([{ id: "a", field: "ticker", from: "", to: "X" }], "manual"), "Edit Ticker");
+  assert.equal(describeChange([{ id: "b", field: "row", from: "", to: "removed" }], "manual"), "Remove 1 row");
+  assert.equal(describeChange(diffs, "manual"), "Edit 3 rows");
+});
+
+test("undo / redo", () => {
+  let s = pushUndo(emptyUndo(), before, [{ id: "a", field: "ticker", from: "CIFR", to: "CIFRX" }], "manual", 0);
+  s = pushUndo(s, [{ ...a, ticker: "CIFRX" }, b], [{ id: "a", field: "ticker", from: "CIFRX", to: "CIFRXY" }], "manual", 1000);
+  assert.equal(s.past.length, 1, "keystrokes in one field are one undo step");
+  assert.strictEqual(s.past[0].rows, before);
+  s = pushUndo(s, before, diffs, "quote", 1100);
+  const u = undo(s, after)!;
+  assert.strictEqual(u.rows, before, "undo returns the rows from before the step");
+  assert.equal(u.label, "Quote refresh");
+  assert.equal(u.stack.future.length, 1);
+  const r = redo(u.stack, u.rows)!;
+  assert.strictEqual(r.rows, after, "redo reapplies it");
+  assert.equal(r.stack.past.length, 2);
+  assert.equal(r.stack.future.length, 0);
+  assert.isNull(undo(emptyUndo(), before), "nothing to undo");
+  assert.isNull(redo(s, after), "nothing to redo");
+  assert.equal(pushUndo(u.stack, before, diffs, "manual", 2000).future.length, 0, "a new change clears redo");
+});
@@ -0,0 +1,148 @@
+/**
+ * Row change history + undo / redo
+ * --------------------------------------------
+ * - Every change to a portfolio's rows is diffed field by field and logged per row id with the old and new value,
+ *   where it came from (manual edit, quote feed, import, undo / redo) and when. Added and removed rows log field "row".
+ * - Values are kept as display text; `lots` logs its count ("3 lots") rather than the lot list.
+ * - Keystrokes in one field coalesce: a manual change to the same row and field within COALESCE_MS of the last one
+ *   updates that entry (and that undo step) instead of adding another, so typing "CIFR" is one change, not four.
+ * - Undo steps hold the whole rows array from before the change; the stacks live for the session only and start
+ *   empty on every load and portfolio switch. The history itself is saved with the portfolio.
+ */
+
+import { tableColumns } from "./tableView";
+
+export type ChangeSource = "manual" | "quote" | "import" | "undo" | "redo";
+
+export type RowChange = {
+  at: number;
+  field: string; // row field key, "row" for added / removed
+  from: string;
+  to: string;
+  source: ChangeSource;
+};
+
+export type RowHistory = Record<string, RowChange[]>; // by row id, oldest first
+
+export type UndoStep = { label: string; rows: any[]; at: number; key: string };
+export type UndoStack = { past: UndoStep[]; future: UndoStep[] };
+
+export const COALESCE_MS = 1500;
+export const MAX_ROW_CHANGES = 50;
+export const MAX_UNDO = 100;
+
+export const emptyUndo = (): UndoStack => ({ past: [], future: [] });
+
+export const changeSources: Record<ChangeSource, string> = {
+  manual: "Manual",
+  quote: "Quote feed",
+  import: "Import",
+  undo: "Undo",
+  redo: "Redo",
+};
+
+const HEADERS = new Map(tableColumns.map((c) => [c.key, c.header(0)]));
+
+export const fieldLabel = (field: string) => (field === "row" ? "Row" : field === "strategyId" ? "Strategy" : HEADERS.get(field) ?? field);
+
+const display = (key: string, v: unknown) => {
+  if (v === undefined || v === null) return "";
+  if (key === "lots") return Array.isArray(v) ? `${v.length} lot${v.length === 1 ? "" : "s"}` : "";
+  return typeof v === "object" ? JSON.stringify(v) : String(v);
+};
+
+export type RowDiff = { id: string; field: string; from: string; to: string };
+
+// field-level differences between two versions of the rows, matched by id
+export function diffRows(before: any[], after: any[]): RowDiff[] {
+  const old = new Map(before.map((r) => [r.id, r]));
+  const out: RowDiff[] = [];
+  for (const r of after) {
+    const prev = old.get(r.id);
+    if (!prev) {
+      out.push({ id: r.id, field: "row", from: "", to: "added" });
+      continue;
+    }
+    old.delete(r.id);
+    if (prev === r) continue;
+    for (const key of new Set([...Object.keys(prev), ...Object.keys(r)])) {
+      if (key === "id") continue;
+      const from = display(key, prev[key]);
+      const to = display(key, r[key]);
+      if (from !== to || (key === "lots" && JSON.stringify(prev[key]) !== JSON.stringify(r[key]))) out.push({ id: r.id, field: key, from, to });
+    }
+  }
+  for (const id of old.keys()) out.push({ id, field: "row", from: "", to: "removed" });
+  return out;
+}
+
+const coalesces = (last: RowChange | undefined, field: string, source: ChangeSource, at: number) =>
+  !!last && source === "manual" && last.source === "manual" && last.field === field && field !== "row" && at - last.at < COALESCE_MS;
+
+// log each diff under its row; newest entries kept, at most MAX_ROW_CHANGES per row
+export function appendHistory(history: RowHistory, diffs: RowDiff[], source: ChangeSource, at: number): RowHistory {
+  const next = { ...history };
+  for (const d of diffs) {
+    const list = next[d.id] ?? [];
+    const last = list[list.length - 1];
+    if (coalesces(last, d.field, source, at)) {
+      next[d.id] = last.from === d.to ? list.slice(0, -1) : [...list.slice(0, -1), { ...last, to: d.to, at }];
+    } else {
+      next[d.id] = [...list, { at, field: d.field, from: d.from, to: d.to, source }].slice(-MAX_ROW_CHANGES);
+    }
+  }
+  return next;
+}
+
+// history only for rows that still exist (undo stacks don't survive a reload, so removed rows can't come back)
+export function sanitizeHistory(raw: unknown, rowIds: string[]): RowHistory {
+  const out: RowHistory = {};
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return out;
+  const sources = Object.keys(changeSources);
+  for (const id of rowIds) {
+    const list = (raw as Record<string, unknown>)[id];
+    if (!Array.isArray(list)) continue;
+    const changes = list
+      .filter((c: any) => c && Number.isFinite(c.at) && typeof c.field === "string" && typeof c.from === "string" && typeof c.to === "string" && sources.includes(c.source))
+      .map((c: any) => ({ at: c.at, field: c.field, from: c.from, to: c.to, source: c.source as ChangeSource }))
+      .slice(-MAX_ROW_CHANGES);
+    if (changes.length) out[id] = changes;
+  }
+  return out;
+}
+
+// short name for an undo step: "Edit Ticker", "Quote refresh", "Import", "Remove 2 rows", ...
+export function describeChange(diffs: RowDiff[], source: ChangeSource) {
+  if (source === "quote") return "Quote refresh";
+  if (source === "import") return "Import";
+  const plural = (n: number, what: string) => `${n} ${what}${n === 1 ? "" : "s"}`;
+  const added = diffs.filter((d) => d.field === "row" && d.to === "added").length;
+  const removed = diffs.filter((d) => d.field === "row" && d.to === "removed").length;
+  const rows = new Set(diffs.map((d) => d.id)).size;
+  if (added && added === rows) return `Add ${plural(added, "row")}`;
+  if (removed && removed === rows) return `Remove ${plural(removed, "row")}`;
+  const fields = new Set(diffs.map((d) => d.field));
+  if (rows === 1 && fields.size === 1) return `Edit ${fieldLabel(diffs[0].field)}`;
+  return `Edit ${plural(rows, "row")}`;
+}
+
+// a new change: `before` goes on the undo stack (or extends the top step while typing), redo is cleared
+export function pushUndo(stack: UndoStack, before: any[], diffs: RowDiff[], source: ChangeSource, at: number): UndoStack {
+  const key = source === "manual" && diffs.length === 1 ? `${diffs[0].id}:${diffs[0].field}` : "";
+  const top = stack.past[stack.past.length - 1];
+  if (key && top?.key === key && at - top.at < COALESCE_MS) return { past: [...stack.past.slice(0, -1), { ...top, at }], future: [] };
+  return { past: [...stack.past, { label: describeChange(diffs, source), rows: before, at, key }].slice(-MAX_UNDO), future: [] };
+}
+
+// step back (or forward) from `rows`; null when there's nothing to undo / redo
+export function undo(stack: UndoStack, rows: any[]): { stack: UndoStack; rows: any[]; label: string } | null {
+  const step = stack.past[stack.past.length - 1];
+  if (!step) return null;
+  return { stack: { past: stack.past.slice(0, -1), future: [...stack.future, { ...step, rows, key: "" }] }, rows: step.rows, label: step.label };
+}
+
+export function redo(stack: UndoStack, rows: any[]): { stack: UndoStack; rows: any[]; label: string } | null {
+  const step = stack.future[stack.future.length - 1];
+  if (!step) return null;
+  return { stack: { past: [...stack.past, { ...step, rows, key: "" }], future: stack.future.slice(0, -1) }, rows: step.rows, label: step.label };
+}
@@ -0,0 +1,57 @@
+import { assert, test } from "vitest";
+import { expirySettlement, holdDays, JournalEntry, journalStats, realizedPL } from "./journal";
+
+const base: JournalEntry = {
+  id: "a",
+  rowId: "r",
+  ticker: "CIFR",
+  contract: "CIFR Dec 19 2025 15C",
+  type: "C",
+  side: "long",
+  strike: 15,
+  expiration: "2025-12-19",
+  contracts: 2,
+  entryPrice: 1,
+  exitPrice: 1.5,
+  openDate: "2025-11-01",
+  closeDate: "2025-11-11",
+  fees: 1.3,
+  reason: "closed",
+  notes: "",
+};
+
+test("realized P/L is signed by side and net of fees", () => {
+  assert.closeTo(realizedPL(base), 98.7, 1e-9, "long 2 @ 1.00 → 1.50, fees 1.30: +98.70");
+  assert.closeTo(realizedPL({ ...base, side: "short", fees: 0 }), -100, 1e-9, "short 2 @ 1.00 → 1.50: -100");
+  assert.closeTo(realizedPL({ ...base, multiplier: 10 }), 8.7, 1e-9, "mini (multiplier 10): 0.50 × 2 × 10 - 1.30 = 8.70");
+});
+
+test("hold 2025-11-01 → 2025-11-11 = 10 days", () => {
+  assert.equal(holdDays(base), 10);
+});
+
+test("expiry settles at intrinsic", () => {
+  assert.deepEqual(expirySettlement("P", 15, 18), { exitPrice: 0, reason: "expired" }, "OTM put expires worthless");
+  assert.deepEqual(expirySettlement("C", 15, 18), { exitPrice: 3, reason: "assigned" }, "ITM call settles at intrinsic 3.00");
+});
+
+test("stats: win rate, realized total and per-ticker breakdown", () => {
+  const s = journalStats([base, { ...base, id: "b", ticker: "IREN", exitPrice: 0.5, fees: 0 }]);
+  assert.equal(s.count, 2);
+  assert.equal(s.winRate, 0.5, "1 win of 2");
+  assert.closeTo(s.realized, -1.3, 1e-9, "realized 98.70 - 100");
+  assert.equal(s.byTicker[0].ticker, "CIFR", "sorted by realized P/L");
+});
+
+test("stats convert each trade into the base currency", () => {
+  const eur = { ...base, id: "c", ticker: "SAP", currency: "EUR", fees: 0 }; // +100 EUR
+  const s = journalStats([{ ...base, fees: 0 }, eur], "USD", { EUR: 1.1 });
+  assert.closeTo(s.realized, 210, 1e-9, "100 USD + 100 EUR @ 1.10 = 210 USD");
+  assert.deepEqual(s.missing, []);
+  assert.equal(s.byTicker[0].ticker, "SAP", "per-ticker rows in USD too");
+  assert.closeTo(s.byTicker[0].realized, 110, 1e-9);
+  const noRate = journalStats([{ ...base, fees: 0 }, eur], "USD", {});
+  assert.equal(noRate.realized, 100, "no EUR rate: left out of realized");
+  assert.equal(noRate.count, 2, "still counted");
+  assert.deepEqual(noRate.missing, ["EUR"]);
+});
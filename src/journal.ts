@@ -0,0 +1,105 @@
+/**
+ * Trade journal
+ * --------------------------------------------
+ * - One entry per close / partial close, persisted separately from the open rows.
+ * - Realized P/L = (Exit - Entry) * signed Contracts * Multiplier - Fees (short legs profit when Exit < Entry);
+ *   entries from before multipliers existed count 100. Amounts are in the entry's currency (USD when unset);
+ *   stats convert them into the base currency, and entries without a rate are left out of the realized totals.
+ * - Expiration: OTM legs expire at 0; ITM legs are assigned / exercised at intrinsic value.
+ */
+
+import { currencyOf, FxRates, fxRate, missingRates } from "./fx";
+import { intrinsic, OptionType } from "./pricing";
+import { Side, signedContracts } from "./strategy";
+
+export type CloseReason = "closed" | "expired" | "assigned";
+
+export type JournalEntry = {
+  id: string;
+  rowId: string;
+  ticker: string;
+  contract: string;
+  type: OptionType;
+  side: Side;
+  strike: number;
+  expiration: string;
+  contracts: number; // closed quantity, always positive
+  entryPrice: number;
+  exitPrice: number;
+  openDate: string; // YYYY-MM-DD
+  closeDate: string; // YYYY-MM-DD
+  fees: number;
+  reason: CloseReason;
+  notes: string;
+  multiplier?: number;
+  currency?: string;
+};
+
+export const closeReasons: { key: CloseReason; label: string }[] = [
+  { key: "closed", label: "Closed" },
+  { key: "expired", label: "Expired worthless" },
+  { key: "assigned", label: "Assigned / exercised" },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const todayISO = (now = new Date()) =>
+  `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
+
+// expiration settles at intrinsic: 0 → expired worthless, > 0 → assigned / exercised
+export function expirySettlement(type: OptionType, strike: number, underlyingAtExpiry: number) {
+  const exitPrice = intrinsic(type, underlyingAtExpiry, strike);
+  return { exitPrice, reason: (exitPrice > 0 ? "assigned" : "expired") as CloseReason };
+}
+
+export const realizedPL = (e: JournalEntry) => (e.exitPrice - e.entryPrice) * signedContracts(e.contracts, e.side) * (e.multiplier ?? 100) - e.fees;
+
+export function holdDays(e: JournalEntry) {
+  const open = Date.parse(e.openDate);
+  const close = Date.parse(e.closeDate);
+  return Number.isFinite(open) && Number.isFinite(close) ? Math.max(0, Math.round((close - open) / DAY_MS)) : NaN;
+}
+
+type Bucket = { count: number; wins: number; realized: number; holdSum: number; holdCount: number };
+
+const emptyBucket = (): Bucket => ({ count: 0, wins: 0, realized: 0, holdSum: 0, holdCount: 0 });
+
+// `fx` converts the entry's currency into the base currency (NaN without a rate)
+function add(b: Bucket, e: JournalEntry, fx: number) {
+  const pl = realizedPL(e);
+  const days = holdDays(e);
+  b.count += 1;
+  if (Number.isFinite(fx)) b.realized += pl * fx;
+  if (pl > 0) b.wins += 1;
+  if (Number.isFinite(days)) {
+    b.holdSum += days;
+    b.holdCount += 1;
+  }
+}
+
+const summarize = (b: Bucket) => ({
+  count: b.count,
+  wins: b.wins,
+  losses: b.count - b.wins,
+  realized: b.realized,
+  winRate: b.count ? b.wins / b.count : NaN,
+  avgHoldDays: b.holdCount ? b.holdSum / b.holdCount : NaN,
+});
+
+// realized totals in `base`, like the portfolio totals in computePortfolio
+export function journalStats(entries: JournalEntry[], base = "USD", rates: FxRates = {}) {
+  const all = emptyBucket();
+  const byTicker = new Map<string, Bucket>();
+  for (const e of entries) {
+    const fx = fxRate(currencyOf(e), base, rates);
+    add(all, e, fx);
+    const key = e.ticker.trim().toUpperCase() || "—";
+    if (!byTicker.has(key)) byTicker.set(key, emptyBucket());
+    add(byTicker.get(key)!, e, fx);
+  }
+  return {
+    ...summarize(all),
+    byTicker: Array.from(byTicker, ([ticker, b]) => ({ ticker, ...summarize(b) })).sort((a, b) => b.realized - a.realized),
+    missing: missingRates(entries.map(currencyOf), base, rates),
+  };
+}
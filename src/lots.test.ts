@@ -0,0 +1,50 @@
+import { assert, test } from "vitest";
+import { costBasis, defaultFeeSchedule, Lot, lotFields, orderFee, rowLots, takeLots } from "./lots";
+
+const s = defaultFeeSchedule();
+const lots: Lot[] = [
+  { id: "b", contracts: 3, price: 1.2, openDate: "2025-10-05", fees: 1.95 },
+  { id: "a", contracts: 1, price: 0.8, openDate: "2025-09-01", fees: 0.65 },
+];
+
+test("order fees", () => {
+  assert.equal(orderFee(s, 3), 1.95, "0.65 per contract: 3 → 1.95");
+  assert.equal(orderFee(s, 0), 0);
+  const schedule = { perContract: 0.5, perOrder: 1, minPerOrder: 5 };
+  assert.equal(orderFee(schedule, 2), 5, "minimum per order");
+  assert.equal(orderFee(schedule, 10), 6, "per order + per contract");
+});
+
+test("cost basis and row fields from lots", () => {
+  const b = costBasis(lots);
+  assert.equal(b.contracts, 4);
+  assert.closeTo(b.avgPrice, 1.1, 1e-12, "weighted average (3 × 1.20 + 1 × 0.80) / 4 = 1.10");
+  assert.equal(b.fees, 2.6);
+  assert.equal(b.openDate, "2025-09-01");
+  assert.equal(lotFields(lots).entryPrice, "1.1000");
+  assert.equal(lotFields(lots).fees, "2.60");
+  assert.equal(lotFields([lots[0]]).lots.length, 0, "one lot collapses");
+});
+
+test("FIFO closes the September lot first, fees split with the contracts", () => {
+  const fifo = takeLots(lots, 2, "fifo");
+  assert.deepEqual(fifo.taken.map((l) => `${l.id}${l.contracts}`), ["b1", "a1"]);
+  assert.equal(fifo.left[0].contracts, 2);
+  assert.equal(fifo.taken[0].fees, 0.65);
+  assert.equal(fifo.left[0].fees, 1.3);
+});
+
+test("LIFO and specific lots", () => {
+  const lifo = takeLots(lots, 2, "lifo");
+  assert.deepEqual(lifo.taken.map((l) => l.id), ["b"], "LIFO closes the October lot first");
+  assert.equal(lifo.left.length, 2);
+  const pick = takeLots(lots, 1, "specific", { a: 1 });
+  assert.equal(pick.taken[0].id, "a", "specific lot");
+  assert.deepEqual(pick.left.map((l) => l.id), ["b"]);
+});
+
+test("blank fees come from the schedule", () => {
+  const single = rowLots({ id: "r", contracts: "2", entryPrice: "1.50", openDate: "2025-11-01", fees: "" }, s);
+  assert.deepEqual(single.map((l) => l.id), ["r"]);
+  assert.equal(single[0].fees, 1.3);
+});
@@ -0,0 +1,102 @@
+/**
+ * Tax lots + fees
+ * --------------------------------------------
+ * - A row is one or more lots of the same contract and side. Single-lot rows keep using their own
+ *   contracts / entryPrice / openDate / fees fields; multi-lot rows keep the lots in `row.lots` and those
+ *   four fields are derived from them (sum, weighted average price, earliest date, summed fees).
+ * - Fees are dollars for the whole lot (commission + exchange fees). A row with blank fees uses the fee schedule.
+ * - Closing takes contracts FIFO (oldest open date first), LIFO, or from specific lots; opening fees move out with
+ *   the contracts they belong to.
+ */
+
+export type Lot = {
+  id: string;
+  contracts: number; // always positive; the row's side says long or short
+  price: number;
+  openDate: string; // YYYY-MM-DD
+  fees: number; // $ paid to open this lot
+};
+
+export type FeeSchedule = {
+  perContract: number; // commission + exchange fees, $ per contract
+  perOrder: number; // flat $ per order
+  minPerOrder: number;
+};
+
+export type LotMethod = "fifo" | "lifo" | "specific";
+
+export const lotMethods: { key: LotMethod; label: string }[] = [
+  { key: "fifo", label: "FIFO (oldest first)" },
+  { key: "lifo", label: "LIFO (newest first)" },
+  { key: "specific", label: "Specific lots" },
+];
+
+export const defaultFeeSchedule = (): FeeSchedule => ({ perContract: 0.65, perOrder: 0, minPerOrder: 0 });
+
+const cents = (n: number) => Math.round(n * 100) / 100;
+
+// fee for one order of `contracts`; nothing to pay for nothing traded
+export function orderFee(schedule: FeeSchedule, contracts: number) {
+  if (!(contracts > 0)) return 0;
+  return cents(Math.max(schedule.minPerOrder, schedule.perOrder + schedule.perContract * contracts));
+}
+
+const num = (v: unknown) => (typeof v === "number" ? v : parseFloat(v as string));
+
+// the row's lots; a single-lot row yields one lot with the row's id
+export function rowLots(row: Record<string, any>, schedule: FeeSchedule): Lot[] {
+  if (Array.isArray(row.lots) && row.lots.length) return row.lots;
+  const contracts = Math.abs(num(row.contracts));
+  if (!(contracts > 0)) return [];
+  const fees = num(row.fees);
+  return [{ id: row.id, contracts, price: num(row.entryPrice) || 0, openDate: row.openDate ?? "", fees: Number.isFinite(fees) ? fees : orderFee(schedule, contracts) }];
+}
+
+export function costBasis(lots: Lot[]) {
+  const contracts = lots.reduce((n, l) => n + l.contracts, 0);
+  const paid = lots.reduce((n, l) => n + l.price * l.contracts, 0);
+  return {
+    contracts,
+    avgPrice: contracts > 0 ? paid / contracts : 0,
+    fees: cents(lots.reduce((n, l) => n + l.fees, 0)),
+    openDate: lots.map((l) => l.openDate).filter(Boolean).sort()[0] ?? "",
+  };
+}
+
+// row fields for a new set of lots; one lot or none collapses back to a plain row
+export function lotFields(lots: Lot[]) {
+  const b = costBasis(lots);
+  return {
+    lots: lots.length > 1 ? lots : [],
+    contracts: String(b.contracts),
+    entryPrice: b.avgPrice.toFixed(4),
+    openDate: b.openDate,
+    fees: b.fees.toFixed(2),
+  };
+}
+
+const byAge = (lots: Lot[]) => lots.map((l, i) => ({ l, i })).sort((a, b) => a.l.openDate.localeCompare(b.l.openDate) || a.i - b.i).map((x) => x.l);
+
+// split `contracts` off the lots: `taken` are the closed pieces (fees prorated), `left` what stays open
+export function takeLots(lots: Lot[], contracts: number, method: LotMethod, picks: Record<string, number> = {}) {
+  const want = new Map<string, number>();
+  if (method === "specific") {
+    for (const l of lots) want.set(l.id, Math.min(l.contracts, Math.max(0, picks[l.id] ?? 0)));
+  } else {
+    let rest = contracts;
+    for (const l of method === "fifo" ? byAge(lots) : byAge(lots).reverse()) {
+      want.set(l.id, Math.min(l.contracts, rest));
+      rest -= want.get(l.id)!;
+    }
+  }
+
+  const taken: Lot[] = [];
+  const left: Lot[] = [];
+  for (const l of lots) {
+    const n = want.get(l.id) ?? 0;
+    const share = l.contracts > 0 ? n / l.contracts : 0;
+    if (n > 0) taken.push({ ...l, contracts: n, fees: cents(l.fees * share) });
+    if (n < l.contracts) left.push({ ...l, contracts: l.contracts - n, fees: cents(l.fees - cents(l.fees * share)) });
+  }
+  return { taken, left };
+}
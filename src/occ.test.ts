@@ -0,0 +1,28 @@
+import { assert, test } from "vitest";
+import { contractIssues, contractText, occSymbol, parseContract } from "./occ";
+
+const want = { ticker: "CIFR", expiration: "2025-12-19", strike: 15, type: "C" };
+
+test("parses OCC and broker contract formats", () => {
+  assert.deepEqual(parseContract("CIFR251219C00015000"), want, "OCC symbol");
+  assert.deepEqual(parseContract("CIFR  251219C00015000"), want, "padded OSI symbol");
+  assert.deepEqual(parseContract("-CIFR251219C15"), want, "compact broker symbol");
+  assert.deepEqual(parseContract("CIFR Dec 19 2025 15C"), want, "'CIFR Dec 19 2025 15C'");
+  assert.deepEqual(parseContract("CIFR 19DEC25 15 C"), want, "IBKR-style '19DEC25 15 C'");
+  assert.deepEqual(parseContract("CIFR 12/19/2025 15.00 C"), want, "Schwab-style '12/19/2025 15.00 C'");
+  assert.deepEqual(parseContract("CIFR $15 Call 12/19/2025"), want, "Robinhood-style '$15 Call 12/19/2025'");
+});
+
+test("rejects impossible dates", () => {
+  assert.equal(parseContract("CIFR Feb 30 2025 15C"), null);
+});
+
+test("builds OCC symbols and canonical text", () => {
+  assert.equal(occSymbol({ ticker: "cifr", expiration: "2025-12-19", strike: 15, type: "C" }), "CIFR251219C00015000");
+  assert.equal(occSymbol({ ticker: "SPY", expiration: "2026-01-16", strike: 612.5, type: "P" }), "SPY260116P00612500", "OCC strike keeps 3 decimals");
+  assert.equal(contractText({ ticker: "CIFR", expiration: "2025-12-19", strike: 15, type: "C" }), "CIFR Dec 19 2025 15C");
+});
+
+test("flags a drifted strike", () => {
+  assert.deepEqual(contractIssues({ contract: "CIFR Dec 19 2025 15C", ticker: "CIFR", expiration: "2025-12-19", strike: "17.50", type: "C" }), ["strike"]);
+});
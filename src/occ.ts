@@ -0,0 +1,109 @@
+/**
+ * Contract symbols
+ * --------------------------------------------
+ * - parseContract accepts OCC/OSI symbols ("CIFR251219C00015000", "CIFR  251219C00015000", "O:CIFR251219C00015000"),
+ *   compact broker symbols ("-CIFR251219C15") and the usual text forms:
+ *   "CIFR Dec 19 2025 15C", "CIFR 19DEC25 15 C", "CIFR 12/19/2025 15.00 C", "CIFR $15 Call 12/19/2025", "CIFR 2025-12-19 15P".
+ * - occSymbol / contractText go the other way; contractText is the canonical display form used in the table.
+ */
+
+import { OptionType } from "./pricing";
+
+export type ContractFields = {
+  ticker: string;
+  expiration: string; // YYYY-MM-DD
+  strike: number;
+  type: OptionType;
+};
+
+const MONTHS = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const MONTH_RE = "(JAN|FEB|MAR|APR|MAY|JUN|JUL|AUG|SEP|OCT|NOV|DEC)[A-Z]*";
+
+const pad2 = (n: number) => String(n).padStart(2, "0");
+
+function isoDate(y: number, mo: number, d: number) {
+  const year = y < 100 ? 2000 + y : y;
+  const dt = new Date(year, mo - 1, d);
+  if (dt.getFullYear() !== year || dt.getMonth() !== mo - 1 || dt.getDate() !== d) return null;
+  return `${year}-${pad2(mo)}-${pad2(d)}`;
+}
+
+const asType = (t: string): OptionType => (t[0] === "P" ? "P" : "C");
+
+// "15" / "15.5" / "2.50" → 15 / 15.5 / 2.5 (no trailing zeros)
+export const strikeText = (strike: number) => String(Number(strike.toFixed(3)));
+
+// pulls the expiration out of free text; returns the ISO date and the text with the date removed.
+// Day-first runs before month-first so "19DEC25 15 C" isn't read as Dec 25 2015.
+function takeDate(text: string): [string | null, string] {
+  const patterns: [RegExp, (m: RegExpExecArray) => string | null][] = [
+    [/(\d{4})-(\d{2})-(\d{2})/, (m) => isoDate(+m[1], +m[2], +m[3])],
+    [/(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})(?!\d)/, (m) => isoDate(+m[3], +m[1], +m[2])],
+    [new RegExp(`(\\d{1,2}) ?-?${MONTH_RE} ?-?'?(\\d{4}|\\d{2})(?!\\d)`), (m) => isoDate(+m[3], MONTHS.indexOf(m[2]) + 1, +m[1])],
+    [new RegExp(`${MONTH_RE} ?(\\d{1,2}),? ?'?(\\d{4}|\\d{2})(?!\\d)`), (m) => isoDate(+m[3], MONTHS.indexOf(m[1]) + 1, +m[2])],
+  ];
+  for (const [re, toIso] of patterns) {
+    const m = re.exec(text);
+    if (m) return [toIso(m), `${text.slice(0, m.index)} ${text.slice(m.index + m[0].length)}`.trim()];
+  }
+  return [null, text];
+}
+
+export function parseContract(input: string): ContractFields | null {
+  const s = (input ?? "").trim().toUpperCase().replace(/[$,]/g, " ").replace(/\s+/g, " ");
+  if (!s) return null;
+
+  // OCC / OSI ("CIFR251219C00015000") and compact broker symbols ("-CIFR251219C15")
+  const occ = /^(?:O:|[.-])?([A-Z][A-Z0-9.]{0,5}) ?(\d{2})(\d{2})(\d{2})([CP])(\d+(?:\.\d+)?)$/.exec(s);
+  if (occ) {
+    const expiration = isoDate(+occ[2], +occ[3], +occ[4]);
+    const strike = /^\d{8}$/.test(occ[6]) ? Number(occ[6]) / 1000 : Number(occ[6]);
+    return expiration && strike > 0 ? { ticker: occ[1], expiration, strike, type: asType(occ[5]) } : null;
+  }
+
+  const [ticker, ...rest] = s.split(" ");
+  if (!/^[A-Z][A-Z0-9.]{0,5}$/.test(ticker)) return null;
+  const [expiration, remainder] = takeDate(rest.join(" "));
+  if (!expiration) return null;
+
+  const sk = /^(?:(\d+(?:\.\d+)?) ?(CALL|PUT|C|P)|(CALL|PUT|C|P) ?(\d+(?:\.\d+)?))$/.exec(remainder);
+  if (!sk) return null;
+  const strike = Number(sk[1] ?? sk[4]);
+  return strike > 0 ? { ticker, expiration, strike, type: asType(sk[2] ?? sk[3]) } : null;
+}
+
+// OCC symbol without root padding: CIFR251219C00015000
+export function occSymbol({ ticker, expiration, strike, type }: ContractFields) {
+  const [y, mo, d] = expiration.split("-");
+  const k = String(Math.round(strike * 1000)).padStart(8, "0");
+  return `${ticker.trim().toUpperCase()}${y.slice(2)}${mo}${d}${type}${k}`;
+}
+
+// canonical display text: "CIFR Dec 19 2025 15C"
+export function contractText({ ticker, expiration, strike, type }: ContractFields) {
+  const [y, mo, d] = expiration.split("-").map(Number);
+  const mon = MONTHS[mo - 1];
+  const date = mon ? `${mon[0]}${mon.slice(1).toLowerCase()} ${d} ${y}` : expiration;
+  return `${ticker.trim().toUpperCase()} ${date} ${strikeText(strike)}${type}`;
+}
+
+// structured row fields → ContractFields, or null while any of them is missing / invalid
+export function fieldsOf(row: { ticker?: string; expiration?: string; strike?: string | number; type?: string }): ContractFields | null {
+  const ticker = (row.ticker ?? "").trim().toUpperCase();
+  const strike = typeof row.strike === "number" ? row.strike : parseFloat(row.strike ?? "");
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(row.expiration ?? "");
+  if (!ticker || !(strike > 0) || !m || !isoDate(+m[1], +m[2], +m[3])) return null;
+  return { ticker, expiration: row.expiration as string, strike, type: row.type === "P" ? "P" : "C" };
+}
+
+// which structured fields disagree with the contract text ("contract" = text not recognized)
+export function contractIssues(row: { contract?: string; ticker?: string; expiration?: string; strike?: string | number; type?: string }) {
+  const parsed = parseContract(row.contract ?? "");
+  if (!parsed) return ["contract"];
+  const issues: string[] = [];
+  if (parsed.ticker !== (row.ticker ?? "").trim().toUpperCase()) issues.push("ticker");
+  if (parsed.expiration !== row.expiration) issues.push("expiration");
+  if (Math.abs(parsed.strike - Number(row.strike)) > 1e-9 || !Number.isFinite(Number(row.strike))) issues.push("strike");
+  if (parsed.type !== row.type) issues.push("type");
+  return issues;
+}
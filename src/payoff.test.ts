@@ -0,0 +1,20 @@
+import { assert, test } from "vitest";
+import { findBreakevens, payoffAt, payoffCurve, PayoffLeg } from "./payoff";
+import { expiryTime } from "./pricing";
+
+const exp = "2025-12-19";
+const at = expiryTime(exp);
+const call: PayoffLeg = { type: "C", strike: 15, expiration: exp, entryPrice: 1, contracts: 2, iv: 0.8 };
+const put: PayoffLeg = { ...call, type: "P" };
+
+test("long call at expiry", () => {
+  assert.equal(payoffAt([call], 18, at, 0.045), 400, "(3 - 1) * 200 = 400");
+  assert.equal(payoffAt([call], 10, at, 0.045), -200, "below the strike it loses the premium");
+});
+
+test("straddle breakevens at K ± total premium (13, 17)", () => {
+  const be = findBreakevens(payoffCurve([call, put], [5, 25], at, 0.045, 400));
+  assert.equal(be.length, 2);
+  assert.closeTo(be[0], 13, 1e-6);
+  assert.closeTo(be[1], 17, 1e-6);
+});
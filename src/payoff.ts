@@ -0,0 +1,71 @@
+/**
+ * Payoff curves
+ * --------------------------------------------
+ * - P/L of one or more legs against the underlying price on a given valuation date.
+ * - Legs still alive on that date are valued with Black-Scholes at their own IV; expired legs at intrinsic.
+ * - "At expiration" for a group means the earliest leg expiry (so calendars show the short leg's expiry).
+ */
+
+import { blackScholes, expiryTime, OptionType, yearsToExpiry } from "./pricing";
+
+export type PayoffLeg = {
+  type: OptionType;
+  strike: number;
+  expiration: string;
+  entryPrice: number;
+  contracts: number;
+  iv: number; // decimal
+  multiplier?: number; // shares per contract, 100 when unset
+};
+
+export type PayoffPoint = { x: number; y: number };
+
+const m = 100;
+const sizeOf = (leg: PayoffLeg) => leg.contracts * (leg.multiplier ?? m);
+
+// per-share value of one leg at `at` (ms)
+export function legValueAt(leg: PayoffLeg, underlying: number, at: number, rate: number) {
+  const years = yearsToExpiry(leg.expiration, at);
+  return blackScholes({ underlying, strike: leg.strike, years, type: leg.type, iv: years > 0 ? leg.iv : 0, rate }).value;
+}
+
+export function payoffAt(legs: PayoffLeg[], underlying: number, at: number, rate: number) {
+  return legs.reduce((acc, leg) => acc + (legValueAt(leg, underlying, at, rate) - leg.entryPrice) * sizeOf(leg), 0);
+}
+
+export function earliestExpiry(legs: PayoffLeg[]) {
+  const times = legs.map((l) => expiryTime(l.expiration)).filter(Number.isFinite);
+  return times.length ? Math.min(...times) : NaN;
+}
+
+// price window wide enough to show every strike and the current spot
+export function priceRange(legs: PayoffLeg[], spot: number): [number, number] {
+  const marks = [...legs.map((l) => l.strike), spot].filter((n) => Number.isFinite(n) && n > 0);
+  if (!marks.length) return [0, 1];
+  const lo = Math.min(...marks);
+  const hi = Math.max(...marks);
+  const pad = Math.max((hi - lo) * 0.5, hi * 0.3);
+  return [Math.max(0.01, lo - pad), hi + pad];
+}
+
+export function payoffCurve(legs: PayoffLeg[], [lo, hi]: [number, number], at: number, rate: number, steps = 200): PayoffPoint[] {
+  const out: PayoffPoint[] = [];
+  for (let i = 0; i <= steps; i++) {
+    const x = lo + ((hi - lo) * i) / steps;
+    out.push({ x, y: payoffAt(legs, x, at, rate) });
+  }
+  return out;
+}
+
+// underlying prices where the curve crosses zero (linear interpolation between samples)
+export function findBreakevens(curve: PayoffPoint[]) {
+  const out: number[] = [];
+  for (let i = 1; i < curve.length; i++) {
+    const a = curve[i - 1];
+    const b = curve[i];
+    if (!Number.isFinite(a.y) || !Number.isFinite(b.y)) continue;
+    if (a.y === 0 && (i === 1 || curve[i - 2].y !== 0)) out.push(a.x);
+    else if (a.y * b.y < 0) out.push(a.x + ((b.x - a.x) * -a.y) / (b.y - a.y));
+  }
+  return out;
+}
@@ -0,0 +1,39 @@
+import { assert, test } from "vitest";
+import { americanValue, blackScholes, daysToExpiry, impliedVol } from "./pricing";
+
+// Hull, Options Futures & Other Derivatives, Example 15.6: S=42 K=40 r=10% v=20% T=0.5
+const base = { underlying: 42, strike: 40, years: 0.5, iv: 0.2, rate: 0.1 };
+const c = blackScholes({ ...base, type: "C" });
+const p = blackScholes({ ...base, type: "P" });
+
+test("Black-Scholes values, put-call parity", () => {
+  assert.closeTo(c.value, 4.76, 0.005, "BS call S=42 K=40 ≈ 4.76");
+  assert.closeTo(p.value, 0.81, 0.005, "BS put S=42 K=40 ≈ 0.81");
+  assert.closeTo(c.value - p.value, 42 - 40 * Math.exp(-0.05), 1e-9, "put-call parity C - P = S - K·e^(-rT)");
+  assert.closeTo(c.delta - p.delta, 1, 1e-9, "call delta - put delta = 1");
+});
+
+test("Greeks match Hull Example 19.1", () => {
+  // S=49 K=50 r=5% v=20% T=20/52 → delta ≈ 0.522, theta ≈ -4.31/yr, vega ≈ 12.1
+  const h = blackScholes({ underlying: 49, strike: 50, years: 20 / 52, iv: 0.2, rate: 0.05, type: "C" });
+  assert.closeTo(h.delta, 0.522, 0.001, "BS call delta ≈ 0.522");
+  assert.closeTo(h.theta * 365, -4.31, 0.01, "BS call theta ≈ -4.31 per year");
+  assert.closeTo(h.vega * 100, 12.1, 0.05, "BS call vega ≈ 12.1 per unit vol");
+});
+
+test("impliedVol round-trips 20%", () => {
+  assert.closeTo(impliedVol(c.value, { ...base, type: "C" }), 0.2, 1e-5);
+});
+
+test("DTE counts calendar days", () => {
+  assert.equal(daysToExpiry("2025-12-19", new Date(2025, 11, 12, 9).getTime()), 7, "a week before");
+  assert.equal(daysToExpiry("2025-12-19", new Date(2025, 11, 19, 17).getTime()), 0, "on the day, after the close");
+});
+
+test("American values from the binomial tree", () => {
+  // Hull Example 21.1: American put S=50 K=50 r=10% v=40% T=5 months ≈ 4.28 (European 4.08); American call = European
+  const am = { underlying: 50, strike: 50, years: 5 / 12, iv: 0.4, rate: 0.1 };
+  assert.closeTo(americanValue({ ...am, type: "P" }), 4.28, 0.02, "American put ≈ 4.28");
+  assert.isBelow(blackScholes({ ...am, type: "P" }).value, 4.1, "European put ≈ 4.08");
+  assert.closeTo(americanValue({ ...am, type: "C" }), blackScholes({ ...am, type: "C" }).value, 0.01, "no dividends → American call = European call");
+});
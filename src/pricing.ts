@@ -0,0 +1,162 @@
+/**
+ * Black-Scholes pricing + Greeks
+ * --------------------------------------------
+ * - European exercise, no dividends (good enough for short-dated US equity options); americanValue adds early
+ *   exercise with a Cox-Ross-Rubinstein tree for the theoretical price only (Greeks stay Black-Scholes).
+ * - Time to expiry is ACT/365, measured to 4pm local time on the expiration date.
+ * - Greeks are per share: theta per calendar day, vega and rho per 1 percentage point.
+ * - Volatility and rate are decimals (0.65 = 65%).
+ */
+
+export type OptionType = "C" | "P";
+
+export type PricingInput = {
+  underlying: number;
+  strike: number;
+  years: number;
+  type: OptionType;
+  iv: number;
+  rate: number;
+};
+
+export type Greeks = {
+  value: number;
+  delta: number;
+  gamma: number;
+  theta: number;
+  vega: number;
+  rho: number;
+};
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+// ---------- normal distribution ----------
+export function normPdf(x: number) {
+  return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+}
+
+// Zelen & Severo (A&S 26.2.17), |error| < 7.5e-8
+export function normCdf(x: number) {
+  const t = 1 / (1 + 0.2316419 * Math.abs(x));
+  const poly = t * (0.31938153 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  const tail = normPdf(x) * poly;
+  return x >= 0 ? 1 - tail : tail;
+}
+
+// ---------- time ----------
+// 4pm local on the expiration date (ms), NaN for anything that isn't YYYY-MM-DD
+export function expiryTime(expiration: string) {
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(expiration ?? "");
+  if (!m) return NaN;
+  return new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]), 16, 0, 0).getTime();
+}
+
+export function yearsToExpiry(expiration: string, now = Date.now()) {
+  const close = expiryTime(expiration);
+  if (!Number.isFinite(close)) return NaN;
+  return Math.max(0, close - now) / YEAR_MS;
+}
+
+// calendar days from today to the expiration date: 0 on expiration day, negative once past, NaN when unset
+export function daysToExpiry(expiration: string, now = Date.now()) {
+  const close = expiryTime(expiration);
+  if (!Number.isFinite(close)) return NaN;
+  const today = new Date(now);
+  const expiry = new Date(close);
+  const utc = (d: Date) => Date.UTC(d.getFullYear(), d.getMonth(), d.getDate());
+  return Math.round((utc(expiry) - utc(today)) / (24 * 60 * 60 * 1000));
+}
+
+// ---------- pricing ----------
+export function intrinsic(type: OptionType, underlying: number, strike: number) {
+  return type === "C" ? Math.max(0, underlying - strike) : Math.max(0, strike - underlying);
+}
+
+export function blackScholes({ underlying: S, strike: K, years: T, type, iv: v, rate: r }: PricingInput): Greeks {
+  if (!(S > 0) || !(K > 0) || !Number.isFinite(T) || !Number.isFinite(v) || !Number.isFinite(r)) {
+    return { value: NaN, delta: NaN, gamma: NaN, theta: NaN, vega: NaN, rho: NaN };
+  }
+
+  // expired or zero vol: option is worth its (discounted) intrinsic value
+  if (T <= 0 || v <= 0) {
+    const df = Math.exp(-r * Math.max(0, T));
+    const fwdIntrinsic = type === "C" ? Math.max(0, S - K * df) : Math.max(0, K * df - S);
+    const itm = type === "C" ? S > K * df : S < K * df;
+    return {
+      value: fwdIntrinsic,
+      delta: itm ? (type === "C" ? 1 : -1) : 0,
+      gamma: 0,
+      theta: 0,
+      vega: 0,
+      rho: 0,
+    };
+  }
+
+  const sqrtT = Math.sqrt(T);
+  const d1 = (Math.log(S / K) + (r + 0.5 * v * v) * T) / (v * sqrtT);
+  const d2 = d1 - v * sqrtT;
+  const df = Math.exp(-r * T);
+  const pdf = normPdf(d1);
+
+  const gamma = pdf / (S * v * sqrtT);
+  const vega = (S * pdf * sqrtT) / 100;
+  const decay = -(S * pdf * v) / (2 * sqrtT);
+
+  if (type === "C") {
+    const value = S * normCdf(d1) - K * df * normCdf(d2);
+    return {
+      value,
+      delta: normCdf(d1),
+      gamma,
+      theta: (decay - r * K * df * normCdf(d2)) / 365,
+      vega,
+      rho: (K * T * df * normCdf(d2)) / 100,
+    };
+  }
+
+  const value = K * df * normCdf(-d2) - S * normCdf(-d1);
+  return {
+    value,
+    delta: normCdf(d1) - 1,
+    gamma,
+    theta: (decay + r * K * df * normCdf(-d2)) / 365,
+    vega,
+    rho: (-K * T * df * normCdf(-d2)) / 100,
+  };
+}
+
+// CRR binomial tree with early exercise at every node; without dividends only puts come out above Black-Scholes
+export function americanValue(input: PricingInput, steps = 200) {
+  const { underlying: S, strike: K, years: T, type, iv: v, rate: r } = input;
+  const euro = blackScholes(input).value;
+  if (!Number.isFinite(euro) || T <= 0 || v <= 0) return Number.isFinite(euro) ? Math.max(euro, intrinsic(type, S, K)) : euro;
+  const dt = T / steps;
+  const u = Math.exp(v * Math.sqrt(dt));
+  const d = 1 / u;
+  const disc = Math.exp(-r * dt);
+  const p = (Math.exp(r * dt) - d) / (u - d);
+  const values = Array.from({ length: steps + 1 }, (_, i) => intrinsic(type, S * u ** (steps - i) * d ** i, K));
+  for (let step = steps - 1; step >= 0; step--) {
+    for (let i = 0; i <= step; i++) {
+      const hold = disc * (p * values[i] + (1 - p) * values[i + 1]);
+      values[i] = Math.max(hold, intrinsic(type, S * u ** (step - i) * d ** i, K));
+    }
+  }
+  return values[0];
+}
+
+// Bisection on price; returns NaN when the premium is outside the no-arbitrage bounds.
+export function impliedVol(price: number, input: Omit<PricingInput, "iv">) {
+  if (!(price > 0) || !(input.years > 0)) return NaN;
+  const at = (iv: number) => blackScholes({ ...input, iv }).value;
+  let lo = 1e-4;
+  let hi = 5;
+  if (price < at(lo) || price > at(hi)) return NaN;
+  for (let i = 0; i < 100; i++) {
+    const mid = (lo + hi) / 2;
+    if (at(mid) < price) lo = mid;
+    else hi = mid;
+    if (hi - lo < 1e-7) break;
+  }
+  return (lo + hi) / 2;
+}
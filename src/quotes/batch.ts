@@ -0,0 +1,37 @@
+import { failed, getJSON, QuoteOutcome, QuoteProvider, quoted, toQuote } from "./common";
+
+/**
+ * Batch endpoint: GET <url>?contracts=SYM1,SYM2,... (up to 50 per call).
+ * Accepts { quotes: { SYM: {...} } }, a bare { SYM: {...} } map or [{ symbol, ... }].
+ * Symbols the response leaves out are reported per row instead of failing the whole batch.
+ */
+export function readBatch(json: any, symbols: string[], receivedAt: number) {
+  const body = json && typeof json === "object" && !Array.isArray(json) && json.quotes ? json.quotes : json;
+  const bySymbol: Record<string, unknown> = {};
+  if (Array.isArray(body)) {
+    for (const item of body) if (item && typeof item.symbol === "string") bySymbol[item.symbol.replace(/\s+/g, "").toUpperCase()] = item;
+  } else if (body && typeof body === "object") {
+    for (const [k, v] of Object.entries(body)) bySymbol[k.replace(/\s+/g, "").toUpperCase()] = v;
+  }
+
+  const out: Record<string, QuoteOutcome> = {};
+  for (const symbol of symbols) {
+    const item = bySymbol[symbol.toUpperCase()];
+    const q = item ? toQuote(item, receivedAt) : null;
+    out[symbol] = q ? quoted(q) : failed(item ? "no price in response" : "missing from batch response");
+  }
+  return out;
+}
+
+export const batch: QuoteProvider = {
+  key: "batch",
+  label: "Batch endpoint",
+  hint: "GET ?contracts=SYM1,SYM2 → { quotes: { SYM1: { bid, ask, last, time? } } }",
+  batchSize: 50,
+  needsUrl: true,
+  fetch: async (symbols, req) => {
+    const url = new URL(req.url);
+    url.searchParams.set("contracts", symbols.join(","));
+    return readBatch(await getJSON(url, req.apiKey), symbols, Date.now());
+  },
+};
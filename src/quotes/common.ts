@@ -0,0 +1,82 @@
+/**
+ * Shared types + response helpers for quote providers.
+ * - Providers get a list of OCC symbols and answer with one outcome per symbol: a quote or the reason there isn't one.
+ * - Missing prices are NaN, never 0, so an empty bid can't pass for a real one.
+ */
+
+export type Quote = {
+  bid: number;
+  ask: number;
+  last: number;
+  mid: number; // (bid + ask) / 2 when both sides are there
+  time: number; // ms; the provider's quote time when it sends one, else when we received it
+};
+
+export type QuoteOutcome = { kind: "quote"; quote: Quote } | { kind: "error"; error: string };
+
+export type QuoteRequest = {
+  url: string;
+  apiKey: string;
+  replay: string; // mock provider data
+  step: number; // refresh counter, lets the mock replay snapshots in order
+};
+
+export type QuoteProvider = {
+  key: string;
+  label: string;
+  hint: string;
+  batchSize: number; // symbols per call
+  needsUrl: boolean;
+  fetch: (symbols: string[], req: QuoteRequest) => Promise<Record<string, QuoteOutcome>>;
+};
+
+export type PriceSource = "mid" | "last";
+
+const num = (v: unknown) => {
+  const n = typeof v === "string" && v.trim() !== "" ? Number(v) : typeof v === "number" ? v : NaN;
+  return Number.isFinite(n) && n >= 0 ? n : NaN;
+};
+
+// epoch seconds / epoch ms / ISO string → ms; fallback when absent or unreadable
+const timeOf = (v: unknown, fallback: number) => {
+  if (typeof v === "number" && v > 0) return v < 1e11 ? v * 1000 : v;
+  if (typeof v === "string" && v.trim()) {
+    const t = Date.parse(v);
+    if (Number.isFinite(t)) return t;
+  }
+  return fallback;
+};
+
+// { bid, ask, last, time } with a few common aliases; null when there's no usable price at all
+export function toQuote(json: any, receivedAt: number): Quote | null {
+  if (!json || typeof json !== "object") return null;
+  const bid = num(json.bid);
+  const ask = num(json.ask);
+  const last = num(json.last ?? json.lastPrice ?? json.price);
+  const mid = Number.isFinite(bid) && Number.isFinite(ask) && ask >= bid ? (bid + ask) / 2 : num(json.mid ?? json.mark);
+  if (![bid, ask, last, mid].some(Number.isFinite)) return null;
+  return { bid, ask, last, mid, time: timeOf(json.time ?? json.timestamp ?? json.updated, receivedAt) };
+}
+
+// price that goes into Current $; falls back to the other one when the preferred price is missing
+export function quotePrice(q: Quote, source: PriceSource) {
+  const [first, second] = source === "mid" ? [q.mid, q.last] : [q.last, q.mid];
+  return Number.isFinite(first) ? first : second;
+}
+
+export const isStale = (q: Quote, now: number, staleSec: number) => now - q.time > staleSec * 1000;
+
+export async function getJSON(url: URL, apiKey: string) {
+  const res = await fetch(url.toString(), {
+    headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+  });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  try {
+    return await res.json();
+  } catch {
+    throw new Error("response is not JSON");
+  }
+}
+
+export const quoted = (quote: Quote): QuoteOutcome => ({ kind: "quote", quote });
+export const failed = (error: string): QuoteOutcome => ({ kind: "error", error });
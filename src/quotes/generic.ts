@@ -0,0 +1,23 @@
+import { failed, getJSON, QuoteOutcome, QuoteProvider, quoted, toQuote } from "./common";
+
+/**
+ * The original feed: GET <url>?contract=<OCC symbol> → { last } (bid / ask / time are picked up when present).
+ * One symbol per request; the caller runs a few of them side by side.
+ */
+export const generic: QuoteProvider = {
+  key: "generic",
+  label: "Single-contract endpoint",
+  hint: "GET ?contract=CIFR251219C00015000 → { last, bid?, ask?, time? }",
+  batchSize: 1,
+  needsUrl: true,
+  fetch: async (symbols, req) => {
+    const out: Record<string, QuoteOutcome> = {};
+    for (const symbol of symbols) {
+      const url = new URL(req.url);
+      url.searchParams.set("contract", symbol);
+      const q = toQuote(await getJSON(url, req.apiKey), Date.now());
+      out[symbol] = q ? quoted(q) : failed("no price in response");
+    }
+    return out;
+  },
+};
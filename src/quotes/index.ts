@@ -0,0 +1,38 @@
+/**
+ * Option quote providers
+ * --------------------------------------------
+ * - A provider turns OCC symbols into bid / ask / last (+ mid and a timestamp); see common.ts for the contract.
+ * - fetchQuotes splits the symbols into the provider's batch size and runs a few batches at once.
+ * - A failed batch never throws: every symbol in it comes back with the error, so each row can show its own.
+ */
+
+import { batch } from "./batch";
+import { failed, QuoteOutcome, QuoteProvider, QuoteRequest } from "./common";
+import { generic } from "./generic";
+import { mock } from "./mock";
+
+export type { PriceSource, Quote, QuoteOutcome, QuoteProvider, QuoteRequest } from "./common";
+export { isStale, quotePrice } from "./common";
+export { seedSnapshot } from "./mock";
+
+export const quoteProviders: QuoteProvider[] = [generic, batch, mock];
+
+const PARALLEL = 4;
+
+export async function fetchQuotes(provider: QuoteProvider, symbols: string[], req: QuoteRequest) {
+  const unique = Array.from(new Set(symbols.filter(Boolean)));
+  const chunks: string[][] = [];
+  for (let i = 0; i < unique.length; i += provider.batchSize) chunks.push(unique.slice(i, i + provider.batchSize));
+
+  const out: Record<string, QuoteOutcome> = {};
+  const run = async (chunk: string[]) => {
+    try {
+      Object.assign(out, await provider.fetch(chunk, req));
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      for (const s of chunk) out[s] = failed(message === "Failed to fetch" ? "network error" : message);
+    }
+  };
+  for (let i = 0; i < chunks.length; i += PARALLEL) await Promise.all(chunks.slice(i, i + PARALLEL).map(run));
+  return out;
+}
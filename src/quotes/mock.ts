@@ -0,0 +1,48 @@
+import { failed, QuoteOutcome, QuoteProvider, quoted, toQuote } from "./common";
+
+/**
+ * Offline mock / replay: quotes come from pasted JSON instead of the network.
+ * - One snapshot { SYM: { bid, ask, last } } answers every refresh the same way.
+ * - An array of snapshots is replayed in order, one per refresh, wrapping around at the end.
+ */
+export function readReplay(text: string): Record<string, unknown>[] {
+  if (!text.trim()) return [];
+  const json = JSON.parse(text);
+  const snapshots = Array.isArray(json) ? json : [json];
+  return snapshots.filter((s) => s && typeof s === "object" && !Array.isArray(s));
+}
+
+// a starting snapshot from the portfolio itself: a 4% wide market around each price
+export function seedSnapshot(prices: Record<string, number>) {
+  const snap: Record<string, { bid: number; ask: number; last: number }> = {};
+  for (const [symbol, px] of Object.entries(prices)) {
+    if (!(px > 0)) continue;
+    const r = (n: number) => Math.round(n * 100) / 100;
+    snap[symbol] = { bid: r(px * 0.98), ask: r(px * 1.02), last: r(px) };
+  }
+  return snap;
+}
+
+export const mock: QuoteProvider = {
+  key: "mock",
+  label: "Mock / replay (offline)",
+  hint: "paste { SYM: { bid, ask, last } } or an array of such snapshots to replay one per refresh",
+  batchSize: 500,
+  needsUrl: false,
+  fetch: async (symbols, req) => {
+    let snapshots: Record<string, unknown>[];
+    try {
+      snapshots = readReplay(req.replay);
+    } catch {
+      throw new Error("replay data is not valid JSON");
+    }
+    if (!snapshots.length) throw new Error("no replay data");
+    const snap = snapshots[req.step % snapshots.length];
+    const out: Record<string, QuoteOutcome> = {};
+    for (const symbol of symbols) {
+      const q = snap[symbol] ? toQuote(snap[symbol], Date.now()) : null;
+      out[symbol] = q ? quoted(q) : failed(snap[symbol] ? "no price in replay data" : "not in replay data");
+    }
+    return out;
+  },
+};
@@ -0,0 +1,33 @@
+import { assert, test } from "vitest";
+import { readBatch } from "./batch";
+import { isStale, quotePrice, toQuote } from "./common";
+import { readReplay, seedSnapshot } from "./mock";
+
+test("quote fields: mid, timestamps, mid vs last, staleness", () => {
+  const q = toQuote({ bid: "1.10", ask: 1.3, last: 1.25, time: 1_700_000_000 }, 0)!;
+  assert.closeTo(q.mid, 1.2, 1e-9, "mid from bid/ask");
+  assert.equal(q.time, 1_700_000_000_000, "epoch seconds → ms");
+  assert.equal(toQuote({ last: 2 }, 5)?.time, 5, "legacy { last } still works");
+  assert.isNaN(toQuote({ last: 2 }, 5)?.mid, "legacy { last } has no mid");
+  assert.equal(toQuote({ bid: "" }, 0), null, "no price → null");
+  assert.equal(quotePrice(q, "mid"), q.mid, "mid");
+  assert.equal(quotePrice(q, "last"), 1.25, "last");
+  assert.equal(quotePrice(toQuote({ last: 2 }, 0)!, "mid"), 2, "mid falls back to last");
+  assert.isTrue(isStale(q, q.time + 61_000, 60), "stale after N seconds");
+  assert.isFalse(isStale(q, q.time + 59_000, 60), "fresh before");
+});
+
+test("batch responses", () => {
+  const a = readBatch({ quotes: { CIFR251219C00015000: { bid: 1, ask: 1.2 } } }, ["CIFR251219C00015000", "SPY260116P00600000"], 0);
+  assert.equal(a.CIFR251219C00015000.kind, "quote", "batch map");
+  assert.equal(a.SPY260116P00600000.kind, "error", "missing symbol reported per row");
+  const b = readBatch([{ symbol: "SPY   260116P00600000", last: 5.4 }], ["SPY260116P00600000"], 0);
+  assert.equal(b.SPY260116P00600000.kind, "quote", "batch array with padded OSI symbol");
+});
+
+test("replay snapshots", () => {
+  assert.equal(readReplay('[{"A":{"last":1}},{"A":{"last":2}}]').length, 2);
+  assert.equal(readReplay("").length, 0);
+  assert.equal(seedSnapshot({ A: 1, B: 0 }).A?.ask, 1.02);
+  assert.notProperty(seedSnapshot({ B: 0 }), "B", "seed snapshot skips empty prices");
+});
@@ -0,0 +1,61 @@
+import { assert, test } from "vitest";
+import { concentrationWarnings, HEAT_MOVES, heatmapDates, plHeatmap, tickerExposures } from "./risk";
+
+const now = new Date(2025, 11, 1, 10).getTime();
+const row = (ticker: string, type: string, strike: number, qty: number, entry: number, cur: number, delta: number) => ({
+  ticker,
+  type,
+  strike: String(strike),
+  expiration: "2025-12-19",
+  underlying: ticker === "CIFR" ? "15" : "40",
+  entryPrice: String(entry),
+  qty,
+  modelIv: 0.8,
+  curValue: cur * qty * 100,
+  delta,
+});
+const rows = [row("CIFR", "C", 15, 2, 1, 1.5, 110), row("cifr", "C", 20, -2, 0.4, 0.5, -50), row("IREN", "P", 40, 1, 2, 1, -40)];
+const ex = tickerExposures(rows, 0.045);
+
+test("exposure per ticker", () => {
+  assert.deepEqual(ex.map((e) => e.ticker), ["CIFR", "IREN"], "rows grouped by ticker, case-insensitive");
+  assert.equal(ex[0].positions, 2);
+  assert.closeTo(ex[0].value, 200, 1e-9, "CIFR value 300 - 100 = 200");
+  assert.closeTo(ex[0].share, 2 / 3, 1e-9, "of 300 gross");
+  assert.closeTo(ex[0].capitalAtRisk, 120, 1e-6, "15/20 call spread for 0.60 risks 120");
+  assert.closeTo(ex[0].deltaDollars, 60 * 15, 1e-9, "delta-dollars = delta × spot");
+  assert.equal(ex[1].callShare, 0, "IREN is all puts");
+});
+
+test("naked short call: unlimited risk", () => {
+  assert.deepEqual(tickerExposures([row("X", "C", 15, -1, 1, 1, -50)], 0).map((e) => e.capitalAtRisk), [Infinity]);
+});
+
+test("converted to the base currency", () => {
+  const eur = tickerExposures([{ ...rows[2], fx: 1.1 }], 0.045)[0];
+  assert.closeTo(eur.value, 110, 1e-9);
+  assert.closeTo(eur.deltaDollars, -40 * 40 * 1.1, 1e-9);
+});
+
+test("concentration warnings above the limit", () => {
+  assert.equal(concentrationWarnings(ex, 25).length, 2);
+  assert.equal(concentrationWarnings(ex, 70).length, 0);
+});
+
+test("a single ticker is 100% of the portfolio and warns", () => {
+  const only = tickerExposures([rows[2]], 0.045);
+  assert.deepEqual(concentrationWarnings(only, 50), ["IREN is 100.0% of portfolio value (limit 50%)"]);
+});
+
+test("P/L heatmap", () => {
+  const dates = heatmapDates(rows, now);
+  assert.equal(dates.length, 5);
+  assert.match(dates[3].label, /^Next expiry/, "next expiry slotted between +2 weeks and +1 month");
+  const map = plHeatmap([...rows, { ...rows[0], underlying: "" }], 0.045, dates);
+  assert.equal(map.unpriced, 1, "unpriced rows counted");
+  assert.equal(map.cells.length, 5, "grid is dates × moves");
+  assert.equal(map.cells[0].length, HEAT_MOVES.length, "grid is dates × moves");
+  const spread = plHeatmap(rows.slice(0, 2), 0.045, dates).cells[3];
+  assert.closeTo(spread[HEAT_MOVES.indexOf(30)], 780, 1e-6, "2x 15/20 call spread at expiry: +780 at 19.50");
+  assert.closeTo(spread[HEAT_MOVES.indexOf(-30)], -120, 1e-6, "max loss -120 at 10.50");
+});
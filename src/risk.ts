@@ -0,0 +1,120 @@
+/**
+ * Portfolio risk by underlying
+ * --------------------------------------------
+ * - Rows are computed rows (see computePortfolio in src/core.ts): signed qty, modelIv, curValue and position delta, in the
+ *   row's currency, plus `fx` to the base currency. Every $ figure here is converted to the base currency; rows
+ *   without an FX rate count as 0.
+ * - Capital at risk is the worst expiration P/L of all legs on a ticker together (strategyStats), so spreads count
+ *   their width, long options their premium, and uncovered short calls are unlimited (Infinity).
+ * - Share of portfolio = |ticker value| / Σ |ticker values|; gross, so short credit doesn't cancel long premium.
+ * - Delta-dollars = net position delta (shares) × spot, i.e. the size of the stock position the options behave like.
+ * - The heatmap reprices every leg at spot × (1 + move) on each date with constant IV; legs that can't be priced
+ *   (no underlying or IV) are left out and counted.
+ */
+
+import { multiplierOf } from "./contractSpec";
+import { currencyOf } from "./fx";
+import { earliestExpiry, payoffAt, PayoffLeg } from "./payoff";
+import { expiryTime } from "./pricing";
+import { tickerKey } from "./scenario";
+import { strategyStats } from "./strategy";
+
+export type TickerExposure = {
+  ticker: string;
+  spot: number; // in the ticker's own currency
+  currency: string;
+  positions: number;
+  value: number;
+  share: number; // 0..1
+  capitalAtRisk: number; // $, Infinity when unlimited
+  deltaDollars: number;
+  callValue: number;
+  putValue: number;
+  callShare: number; // 0..1 of gross call + put value
+};
+
+export const HEAT_MOVES = [-30, -20, -10, 0, 10, 20, 30];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const num = (v: unknown) => (typeof v === "number" ? v : parseFloat(v as string));
+const finite = (n: number) => (Number.isFinite(n) ? n : 0);
+const fxOf = (r: any) => (r.fx === undefined ? 1 : r.fx);
+
+export const legOf = (r: any): PayoffLeg => ({
+  type: r.type === "P" ? "P" : "C",
+  strike: num(r.strike),
+  expiration: r.expiration,
+  entryPrice: finite(num(r.entryPrice)),
+  contracts: r.qty,
+  iv: r.modelIv,
+  multiplier: multiplierOf(r),
+});
+
+const byTicker = (rows: any[]) => {
+  const groups = new Map<string, any[]>();
+  for (const r of rows) {
+    const t = tickerKey(r.ticker) || "—";
+    groups.set(t, [...(groups.get(t) ?? []), r]);
+  }
+  return groups;
+};
+
+// one entry per ticker, largest |value| first
+export function tickerExposures(rows: any[], rate: number): TickerExposure[] {
+  const list = Array.from(byTicker(rows), ([ticker, group]) => {
+    const spot = group.map((r) => num(r.underlying)).find((n) => n > 0) ?? NaN;
+    const sum = (pick: (r: any) => number) => group.reduce((n, r) => n + finite(pick(r) * fxOf(r)), 0);
+    const callValue = sum((r) => (r.type === "P" ? 0 : r.curValue));
+    const putValue = sum((r) => (r.type === "P" ? r.curValue : 0));
+    const gross = Math.abs(callValue) + Math.abs(putValue);
+    const maxLoss = strategyStats(group.map(legOf), rate).maxLoss;
+    return {
+      ticker,
+      spot,
+      currency: currencyOf(group[0]),
+      positions: group.length,
+      value: sum((r) => r.curValue),
+      share: 0,
+      capitalAtRisk: Number.isNaN(maxLoss) ? NaN : Math.max(0, -maxLoss) * finite(fxOf(group[0])),
+      deltaDollars: Number.isFinite(spot) ? sum((r) => r.delta) * spot : NaN,
+      callValue,
+      putValue,
+      callShare: gross > 0 ? Math.abs(callValue) / gross : NaN,
+    };
+  });
+  const total = list.reduce((n, e) => n + Math.abs(e.value), 0);
+  return list.map((e) => ({ ...e, share: total > 0 ? Math.abs(e.value) / total : 0 })).sort((a, b) => Math.abs(b.value) - Math.abs(a.value));
+}
+
+export function concentrationWarnings(exposures: TickerExposure[], limitPct: number) {
+  if (!(limitPct > 0)) return [];
+  return exposures
+    .filter((e) => e.share * 100 > limitPct)
+    .map((e) => `${e.ticker} is ${(e.share * 100).toFixed(1)}% of portfolio value (limit ${limitPct}%)`);
+}
+
+export type HeatDate = { label: string; at: number };
+
+// today, +1 week, +2 weeks, +1 month, and the next expiration when it falls in between
+export function heatmapDates(rows: any[], now = Date.now()): HeatDate[] {
+  const dates: HeatDate[] = [
+    { label: "Today", at: now },
+    { label: "+1 week", at: now + 7 * DAY_MS },
+    { label: "+2 weeks", at: now + 14 * DAY_MS },
+    { label: "+1 month", at: now + 30 * DAY_MS },
+  ];
+  const next = earliestExpiry(rows.map(legOf).filter((l) => expiryTime(l.expiration) > now));
+  if (Number.isFinite(next) && next < now + 30 * DAY_MS && !dates.some((d) => Math.abs(d.at - next) < DAY_MS)) {
+    dates.push({ label: `Next expiry ${new Date(next).toLocaleDateString(undefined, { month: "short", day: "numeric" })}`, at: next });
+  }
+  return dates.sort((a, b) => a.at - b.at);
+}
+
+// total P/L for every (date, move) pair: cells[date][move]
+export function plHeatmap(rows: any[], rate: number, dates: HeatDate[], moves = HEAT_MOVES) {
+  const priced = (r: any) => num(r.underlying) > 0 && num(r.strike) > 0 && r.modelIv > 0;
+  const groups = Array.from(byTicker(rows.filter(priced)), ([, group]) => ({ spot: num(group[0].underlying), legs: group.map(legOf), fx: finite(fxOf(group[0])) }));
+  const cells = dates.map((d) => moves.map((m) => groups.reduce((n, g) => n + payoffAt(g.legs, g.spot * (1 + m / 100), d.at, rate) * g.fx, 0)));
+  return { cells, unpriced: rows.length - rows.filter(priced).length };
+}
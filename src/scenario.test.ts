@@ -0,0 +1,18 @@
+import { assert, test } from "vitest";
+import { scenarioNow, scenarioUnderlying, UnderlyingScenario } from "./scenario";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+test("target scenario uses the per-ticker price", () => {
+  const s: UnderlyingScenario = { mode: "target", movePct: 0, targets: { CIFR: 18 }, days: 3 };
+  assert.equal(scenarioUnderlying("cifr ", 14.5, s), 18);
+  assert.equal(scenarioUnderlying("IREN", 20, s), 20, "tickers without a target stay at spot");
+});
+
+test("move scenario -10% of 20 = 18", () => {
+  assert.closeTo(scenarioUnderlying("IREN", 20, { mode: "move", movePct: -10, targets: {}, days: 0 }), 18, 1e-9);
+});
+
+test("days roll the valuation date forward", () => {
+  assert.equal(scenarioNow({ mode: "move", movePct: 0, targets: {}, days: 3 }, 0), 3 * DAY_MS);
+});
@@ -0,0 +1,46 @@
+/**
+ * Underlying-move scenarios
+ * --------------------------------------------
+ * - "move": every underlying moves by the same % (e.g. -10%).
+ * - "target": per-ticker target prices (e.g. CIFR → $18); tickers without a target stay put.
+ * - `days` rolls the valuation date forward, so options lose time value before repricing.
+ */
+
+export type ScenarioMode = "move" | "target";
+
+export type UnderlyingScenario = {
+  mode: ScenarioMode;
+  movePct: number;
+  targets: Record<string, number>;
+  days: number;
+};
+
+export const defaultScenario = (): UnderlyingScenario => ({ mode: "move", movePct: 10, targets: {}, days: 0 });
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const tickerKey = (ticker: string) => (ticker ?? "").trim().toUpperCase();
+
+// scenario spot for one underlying (NaN when the current underlying is unknown)
+export function scenarioUnderlying(ticker: string, underlying: number, scenario: UnderlyingScenario) {
+  if (scenario.mode === "target") {
+    const target = scenario.targets[tickerKey(ticker)];
+    if (Number.isFinite(target) && target > 0) return target;
+    return underlying > 0 ? underlying : NaN;
+  }
+  return underlying > 0 ? underlying * (1 + scenario.movePct / 100) : NaN;
+}
+
+export const scenarioNow = (scenario: UnderlyingScenario, now = Date.now()) => now + Math.max(0, scenario.days) * DAY_MS;
+
+export function describeScenario(scenario: UnderlyingScenario) {
+  const when = scenario.days > 0 ? `, +${scenario.days}d` : "";
+  if (scenario.mode === "target") {
+    const list = Object.entries(scenario.targets)
+      .filter(([, v]) => Number.isFinite(v) && v > 0)
+      .map(([k, v]) => `${k} $${v}`);
+    return `${list.length ? list.join(", ") : "no targets"}${when}`;
+  }
+  const sign = scenario.movePct >= 0 ? "+" : "";
+  return `underlying ${sign}${scenario.movePct}%${when}`;
+}
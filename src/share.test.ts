@@ -0,0 +1,48 @@
+import { assert, test } from "vitest";
+import { copyOfSnapshot, decodeSnapshot, encodeSnapshot, fromBase64Url, readSnapshot, shareDataFromHash, snapshotOf, toBase64Url } from "./share";
+import { sanitizeStore, upgradeRow } from "./storage";
+
+test("base64url round trip", () => {
+  const bytes = Uint8Array.from([0, 250, 251, 62, 63, 255]);
+  assert.equal(toBase64Url(bytes), "APr7Pj__");
+  assert.deepEqual(Array.from(fromBase64Url("APr7Pj__")), Array.from(bytes));
+});
+
+test("snapshot drops empty fields and reads back with defaults restored", () => {
+  const settings = sanitizeStore({}).settings;
+  const snap = snapshotOf("IRA", [upgradeRow({ id: "r1", ticker: "CIFR", strike: "15", strategyId: "s1" })], [{ id: "s1", name: "Spread", template: "" }], settings, 1);
+  assert.notProperty(snap.rows[0], "notes", "empty fields dropped");
+  assert.equal(snap.rows[0].ticker, "CIFR");
+  const read = readSnapshot(JSON.parse(JSON.stringify(snap)));
+  assert.isNotNull(read);
+  assert.equal(read!.rows[0].notes, "", "defaults restored");
+  assert.equal(read!.rows[0].strike, "15");
+  assert.equal(read!.settings.pct, settings.pct);
+  const copy = copyOfSnapshot(read!);
+  assert.notEqual(copy.rows[0].id, "r1", "copy gets new ids");
+  assert.equal(copy.rows[0].strategyId, copy.strategies[0].id, "strategy link kept");
+});
+
+test("bad snapshot rejected, hash parsed", () => {
+  assert.isNull(readSnapshot({ rows: "x" }));
+  assert.equal(shareDataFromHash("#/share/zABC"), "zABC");
+});
+
+const linkSnapshot = () =>
+  snapshotOf("IRA", [upgradeRow({ id: "r1", ticker: "CIFR", strike: "15", contracts: "2", notes: "swing, earnings" })], [], sanitizeStore({}).settings, 1);
+
+test("link encodes compressed and decodes back to the same snapshot", async () => {
+  const snap = linkSnapshot();
+  const data = await encodeSnapshot(snap);
+  assert.equal(data[0], "z", "deflated");
+  assert.match(data.slice(1), /^[A-Za-z0-9_-]+$/, "base64url after the prefix");
+  assert.deepEqual(await decodeSnapshot(data), readSnapshot(JSON.parse(JSON.stringify(snap))));
+});
+
+test("corrupted or truncated link rejected", async () => {
+  const data = await encodeSnapshot(linkSnapshot());
+  assert.equal(await decodeSnapshot(data.slice(0, Math.floor(data.length / 2))), null, "truncated");
+  assert.equal(await decodeSnapshot(`z${"A".repeat(data.length - 1)}`), null, "garbage deflate data");
+  assert.equal(await decodeSnapshot(`q${data.slice(1)}`), null, "unknown prefix");
+  assert.equal(await decodeSnapshot("z!!"), null, "not base64url");
+});
@@ -0,0 +1,81 @@
+/**
+ * Share snapshots in the URL (#/share/<data>)
+ * --------------------------------------------
+ * - A snapshot is one portfolio's rows + strategies and the scenario settings needed to read them the same way.
+ * - It is deflated (CompressionStream) and base64url-encoded into the hash, so no server is involved;
+ *   browsers without CompressionStream fall back to plain JSON. The first letter says which ("z" / "j").
+ * - Opening a link never touches the viewer's own portfolios unless they choose to save a copy.
+ */
+
+import { sanitizeStore, Settings, upgradeRow, ValuationSettings } from "./storage";
+import { Strategy } from "./strategy";
+
+export const SHARE_PREFIX = "#/share/";
+
+export type Snapshot = {
+  name: string;
+  at: number;
+  rows: any[];
+  strategies: Strategy[];
+  settings: ValuationSettings;
+};
+
+const valuationOf = ({ pct, ratePct, scenario, feeSchedule, baseCurrency, fxRates }: Settings): ValuationSettings => ({ pct, ratePct, scenario, feeSchedule, baseCurrency, fxRates });
+
+// empty fields are dropped to keep links short; upgradeRow puts them back on the way in
+export function snapshotOf(name: string, rows: any[], strategies: Strategy[], settings: Settings, now = Date.now()): Snapshot {
+  const slim = rows.map((r) => Object.fromEntries(Object.entries(r).filter(([, v]) => v !== "" && v != null)));
+  return { name, at: now, rows: slim, strategies, settings: valuationOf(settings) };
+}
+
+export function readSnapshot(doc: any): Snapshot | null {
+  if (!doc || typeof doc !== "object" || !Array.isArray(doc.rows)) return null;
+  // reuse the store validation for rows / strategies / settings
+  const checked = sanitizeStore({ portfolios: [{ name: doc.name, rows: doc.rows, strategies: doc.strategies }], settings: doc.settings });
+  const p = checked.portfolios[0];
+  return { name: p.name, at: Number.isFinite(doc.at) ? doc.at : 0, rows: p.rows, strategies: p.strategies, settings: valuationOf(checked.settings) };
+}
+
+// a saved copy gets fresh row / strategy ids so it can't collide with the original
+export function copyOfSnapshot(s: Snapshot) {
+  const ids = new Map(s.strategies.map((x) => [x.id, crypto.randomUUID()]));
+  return {
+    rows: s.rows.map((r) => upgradeRow({ ...r, id: crypto.randomUUID(), strategyId: ids.get(r.strategyId) ?? "" })),
+    strategies: s.strategies.map((x) => ({ ...x, id: ids.get(x.id) as string })),
+  };
+}
+
+// ---------- encoding ----------
+export function toBase64Url(bytes: Uint8Array) {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function fromBase64Url(text: string) {
+  const bin = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+}
+
+async function pipe(bytes: Uint8Array, stream: GenericTransformStream) {
+  const out = new Blob([bytes as BlobPart]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(out).arrayBuffer());
+}
+
+export async function encodeSnapshot(s: Snapshot) {
+  const json = new TextEncoder().encode(JSON.stringify(s));
+  if (typeof CompressionStream === "undefined") return `j${toBase64Url(json)}`;
+  return `z${toBase64Url(await pipe(json, new CompressionStream("deflate-raw")))}`;
+}
+
+export async function decodeSnapshot(data: string): Promise<Snapshot | null> {
+  try {
+    const bytes = fromBase64Url(data.slice(1));
+    const json = data[0] === "z" ? await pipe(bytes, new DecompressionStream("deflate-raw")) : data[0] === "j" ? bytes : null;
+    return json ? readSnapshot(JSON.parse(new TextDecoder().decode(json))) : null;
+  } catch {
+    return null;
+  }
+}
+
+export const shareDataFromHash = (hash: string) => (hash.startsWith(SHARE_PREFIX) ? hash.slice(SHARE_PREFIX.length) : "");
@@ -0,0 +1,93 @@
+import { assert, test } from "vitest";
+import { loadStore, newPortfolio, sanitizeStore, saveStore, SCHEMA_VERSION, STORE_KEY } from "./storage";
+
+const memory = (items: Record<string, string>) => {
+  const m = new Map(Object.entries(items));
+  return { getItem: (k: string) => m.get(k) ?? null, setItem: (k: string, v: string) => void m.set(k, v), keys: () => Array.from(m.keys()) };
+};
+
+test("v2 rows → one Main portfolio with string fields and defaults", () => {
+  const v2 = loadStore(memory({ optionsRows_v2: JSON.stringify([{ id: "a", ticker: "CIFR", strike: 15, contracts: 2, type: "p" }]) }));
+  assert.equal(v2.store.version, SCHEMA_VERSION);
+  assert.deepEqual(v2.store.portfolios.map((p) => p.name), ["Main"]);
+  const row = v2.store.portfolios[0].rows[0];
+  assert.equal(row.strike, "15");
+  assert.equal(row.contracts, "2");
+  assert.equal(row.type, "P");
+  assert.equal(row.side, "long");
+  assert.equal(row.iv, "");
+});
+
+test("v4 keys folded into the portfolio, corrupt ones reported", () => {
+  const v4 = loadStore(memory({ optionsRows_v4: "[]", optionsStrategies_v4: JSON.stringify([{ id: "s", name: "Spread", template: "" }]), optionsJournal_v4: "not json" }));
+  assert.equal(v4.store.portfolios[0].strategies.length, 1);
+  assert.equal(v4.store.portfolios[0].journal.length, 0);
+  assert.equal(v4.notices.length, 1, "corrupt v4 journal reported, the rest kept");
+});
+
+test("corrupt store → falls back to legacy keys, text kept aside", () => {
+  const broken = memory({ [STORE_KEY]: "{oops", optionsRows_v4: JSON.stringify([{ id: "b" }]) });
+  const rec = loadStore(broken);
+  assert.equal(rec.store.portfolios[0].rows[0].id, "b");
+  assert.equal(rec.notices.length, 2);
+  assert.isTrue(broken.keys().some((k) => k.startsWith(`${STORE_KEY}_corrupt_`)));
+});
+
+test("newer schema is not overwritten blindly", () => {
+  const text = JSON.stringify({ version: 99 });
+  const disk = memory({ [STORE_KEY]: text });
+  const future = loadStore(disk);
+  assert.equal(future.notices.length, 1);
+  assert.equal(future.store.portfolios.length, 1);
+  assert.isTrue(future.readOnly, "saving stays off");
+  assert.equal(disk.getItem(STORE_KEY), text, "primary key untouched");
+  assert.isTrue(disk.keys().some((k) => k.startsWith(`${STORE_KEY}_corrupt_`)), "backup kept");
+  assert.isFalse(loadStore(memory({ [STORE_KEY]: JSON.stringify({ version: SCHEMA_VERSION }) })).readOnly);
+});
+
+test("settings type-checked against defaults", () => {
+  const s = sanitizeStore({ settings: { pct: "20", refreshSec: 30, priceSource: "bogus", scenario: { mode: "target", targets: { CIFR: 18 } } } });
+  assert.equal(s.settings.pct, 15);
+  assert.equal(s.settings.refreshSec, 30);
+  assert.equal(s.settings.priceSource, "mid");
+  assert.equal(s.settings.scenario.mode, "target", "scenario settings kept");
+  assert.equal(s.settings.scenario.targets.CIFR, 18, "scenario settings kept");
+  const fxs = sanitizeStore({ settings: { baseCurrency: "eur", fxRates: { EUR: 1.08, GBP: -1, bad: 2 } } }).settings;
+  assert.equal(fxs.baseCurrency, "EUR", "base currency normalized");
+  assert.deepEqual(fxs.fxRates, { EUR: 1.08 }, "bad FX rates dropped");
+});
+
+test("fee schedule and lots validated", () => {
+  const fees = sanitizeStore({ settings: { feeSchedule: { perContract: 0.5, perOrder: -1 } }, portfolios: [{ rows: [{ id: "r", lots: [{ id: "l", contracts: 2, price: 1 }, { id: "x", contracts: 0, price: 1 }] }] }] });
+  assert.equal(fees.settings.feeSchedule.perContract, 0.5, "fee schedule checked field by field");
+  assert.equal(fees.settings.feeSchedule.perOrder, 0, "fee schedule checked field by field");
+  const row = fees.portfolios[0].rows[0];
+  assert.equal(row.lots.length, 1, "empty lots dropped");
+  assert.equal(row.lots[0].id, "l");
+  assert.equal(row.lots[0].fees, 0);
+  assert.equal(row.fees, "");
+});
+
+test("fresh store gets the seed rows", () => {
+  assert.equal(loadStore(memory({}), () => [{ id: "seed" }]).store.portfolios[0].rows[0].id, "seed");
+});
+
+test("save / load round trip", () => {
+  const s = sanitizeStore({});
+  const disk = memory({});
+  saveStore(disk, { ...s, portfolios: [...s.portfolios, { ...newPortfolio("IRA"), rows: [{ id: "r" }] }] });
+  const back = loadStore(disk).store;
+  assert.equal(back.portfolios.length, 2);
+  assert.equal(back.portfolios[1].name, "IRA");
+  assert.equal(back.portfolios[1].rows[0].ticker, "");
+});
+
+test("API key saved only when remembering it is switched on", () => {
+  const s = sanitizeStore({ settings: { apiKey: "sk_live" } });
+  const disk = memory({});
+  saveStore(disk, s);
+  assert.notInclude(disk.getItem(STORE_KEY)!, "sk_live", "off by default: key left out");
+  assert.equal(loadStore(disk).store.settings.apiKey, "");
+  saveStore(disk, { ...s, settings: { ...s.settings, rememberApiKey: true } });
+  assert.equal(loadStore(disk).store.settings.apiKey, "sk_live", "opted in: key kept");
+});
@@ -0,0 +1,307 @@
+/**
+ * Persisted state: named portfolios + settings, versioned
+ * --------------------------------------------
+ * - Everything lives in one localStorage document ("optionsStore") that carries its schema version.
+ * - Older layouts are upgraded step by step through `migrations` (v1–v3: rows only, v4: one key per feature).
+ * - Nothing read from storage is trusted: unreadable JSON is copied aside under a "_corrupt_<time>" key and
+ *   loading falls back to the legacy keys or a fresh store; every field is checked and defaulted on the way in.
+ * - Legacy keys are left in place, so an older build still finds its own data.
+ * - A document from a newer schema is never overwritten: loading reports it read-only and the app stops saving.
+ * - The quote API key is only written when the user opts in (rememberApiKey); otherwise it lasts for the session.
+ */
+
+import { AlertEvent, AlertRule, AlertState } from "./alerts";
+import { CsvDelimiter } from "./csv";
+import { csvColumns, defaultCsvColumns } from "./csvColumns";
+import { exerciseOf, settlementOf } from "./contractSpec";
+import { currencyOf, FxRates } from "./fx";
+import { RowHistory, sanitizeHistory } from "./history";
+import { JournalEntry } from "./journal";
+import { defaultFeeSchedule, FeeSchedule } from "./lots";
+import { PriceSource } from "./quotes/index";
+import { defaultScenario, UnderlyingScenario } from "./scenario";
+import { Strategy } from "./strategy";
+import { defaultTableLayout, sanitizeLayout, TableLayout } from "./tableView";
+
+export const SCHEMA_VERSION = 5;
+export const STORE_KEY = "optionsStore";
+
+type KeyValueStorage = Pick<Storage, "getItem" | "setItem">;
+
+export type Portfolio = {
+  id: string;
+  name: string;
+  rows: any[];
+  strategies: Strategy[];
+  journal: JournalEntry[];
+  alerts: AlertRule[];
+  alertLog: AlertEvent[];
+  alertState: AlertState;
+  history: RowHistory; // per-row change log (src/history.ts)
+};
+
+export type Settings = {
+  pct: number;
+  ratePct: number;
+  scenario: UnderlyingScenario;
+  providerKey: string;
+  dataFeedUrl: string;
+  apiKey: string;
+  rememberApiKey: boolean; // save apiKey with the rest (plain text in localStorage)
+  replay: string;
+  priceSource: PriceSource;
+  staleSec: number;
+  autoRefresh: boolean;
+  refreshSec: number;
+  csvColumns: string[]; // export column keys (src/csvColumns.ts)
+  csvDelimiter: CsvDelimiter;
+  concentrationPct: number; // warn when one ticker is above this % of portfolio value, 0 = off
+  feeSchedule: FeeSchedule;
+  baseCurrency: string; // totals are converted into this
+  fxRates: FxRates;
+  tableLayout: TableLayout;
+};
+
+// what it takes to value a portfolio the same way elsewhere (share links, the read-only view)
+export type ValuationSettings = Pick<Settings, "pct" | "ratePct" | "scenario" | "feeSchedule" | "baseCurrency" | "fxRates">;
+
+export type Store = {
+  version: number;
+  activeId: string;
+  portfolios: Portfolio[];
+  settings: Settings;
+};
+
+export const defaultSettings = (): Settings => ({
+  pct: 15,
+  ratePct: 4.5,
+  scenario: defaultScenario(),
+  providerKey: "generic",
+  dataFeedUrl: "",
+  apiKey: "",
+  rememberApiKey: false,
+  replay: "",
+  priceSource: "mid",
+  staleSec: 60,
+  autoRefresh: false,
+  refreshSec: 15,
+  csvColumns: defaultCsvColumns,
+  csvDelimiter: ",",
+  concentrationPct: 25,
+  feeSchedule: defaultFeeSchedule(),
+  baseCurrency: "USD",
+  fxRates: {},
+  tableLayout: defaultTableLayout(),
+});
+
+export const newPortfolio = (name: string, rows: any[] = []): Portfolio => ({
+  id: crypto.randomUUID(),
+  name,
+  rows,
+  strategies: [],
+  journal: [],
+  alerts: [],
+  alertLog: [],
+  alertState: {},
+  history: {},
+});
+
+const isObject = (v: unknown): v is Record<string, any> => v != null && typeof v === "object" && !Array.isArray(v);
+const objects = (v: unknown) => (Array.isArray(v) ? v.filter(isObject) : []);
+
+// ---------- rows ----------
+const ROW_DEFAULTS: Record<string, string> = {
+  ticker: "",
+  underlying: "",
+  contract: "",
+  expiration: "",
+  strike: "",
+  type: "C",
+  side: "long",
+  contracts: "",
+  entryPrice: "",
+  currentPrice: "",
+  iv: "",
+  strategyId: "",
+  openDate: "",
+  fees: "",
+  multiplier: "100",
+  exercise: "american",
+  settlement: "physical",
+  currency: "USD",
+  notes: "",
+};
+
+// every known field present and a string; unknown fields are kept for newer builds
+export function upgradeRow(r: Record<string, any>) {
+  const out: Record<string, any> = { ...r, id: typeof r.id === "string" && r.id ? r.id : crypto.randomUUID() };
+  for (const [field, fallback] of Object.entries(ROW_DEFAULTS)) out[field] = r[field] == null ? fallback : String(r[field]);
+  out.type = out.type.toUpperCase() === "P" ? "P" : "C";
+  out.side = out.side === "short" ? "short" : "long";
+  out.exercise = exerciseOf(out);
+  out.settlement = settlementOf(out);
+  out.currency = currencyOf(out);
+  out.lots = objects(r.lots)
+    .filter((l) => typeof l.id === "string" && l.contracts > 0 && Number.isFinite(l.price))
+    .map((l) => ({ id: l.id, contracts: l.contracts, price: l.price, openDate: typeof l.openDate === "string" ? l.openDate : "", fees: Number.isFinite(l.fees) ? l.fees : 0 }));
+  return out;
+}
+
+// ---------- migrations ----------
+// each step takes a document of version N and returns the next version up
+const fromRowsOnly = (doc: any) => ({ ...doc, version: 4, rows: objects(doc.rows).map(upgradeRow) });
+
+const migrations: Record<number, (doc: any) => any> = {
+  // v1–v3 kept only the rows, sometimes with numbers instead of strings and without side / iv / underlying
+  1: fromRowsOnly,
+  2: fromRowsOnly,
+  3: fromRowsOnly,
+  // v4 had one key per feature; v5 nests them in named portfolios and adds persisted settings
+  4: (doc) => {
+    const main = {
+      ...newPortfolio("Main"),
+      rows: doc.rows,
+      strategies: doc.strategies,
+      journal: doc.journal,
+      alerts: doc.alerts,
+      alertLog: doc.alertLog,
+      alertState: doc.alertState,
+    };
+    return { version: 5, activeId: main.id, portfolios: [main], settings: defaultSettings() };
+  },
+};
+
+export function migrate(doc: any) {
+  let out = doc;
+  while (out.version < SCHEMA_VERSION) {
+    const step = migrations[out.version];
+    if (!step) throw new Error(`no migration from version ${out.version}`);
+    out = step(out);
+  }
+  return out;
+}
+
+// ---------- validation ----------
+function sanitizeSettings(raw: unknown): Settings {
+  const defaults = defaultSettings();
+  const s: Record<string, any> = isObject(raw) ? raw : {};
+  const out: Record<string, any> = { ...defaults };
+  for (const key of Object.keys(defaults) as (keyof Settings)[]) {
+    if (key !== "scenario" && key !== "feeSchedule" && key !== "fxRates" && key !== "tableLayout" && typeof s[key] === typeof defaults[key] && (typeof s[key] !== "number" || Number.isFinite(s[key]))) out[key] = s[key];
+  }
+  out.priceSource = out.priceSource === "last" ? "last" : "mid";
+  out.csvDelimiter = out.csvDelimiter === ";" ? ";" : ",";
+  out.csvColumns = Array.isArray(s.csvColumns) ? csvColumns.map((c) => c.key).filter((k) => s.csvColumns.includes(k)) : defaults.csvColumns;
+  const fs = isObject(s.feeSchedule) ? s.feeSchedule : {};
+  out.feeSchedule = Object.fromEntries(
+    Object.entries(defaults.feeSchedule).map(([k, v]) => [k, Number.isFinite(fs[k]) && fs[k] >= 0 ? fs[k] : v])
+  ) as FeeSchedule;
+  out.baseCurrency = currencyOf({ currency: out.baseCurrency });
+  const fx = isObject(s.fxRates) ? s.fxRates : {};
+  out.fxRates = Object.fromEntries(Object.entries(fx).filter(([k, v]) => /^[A-Z]{3}$/.test(k) && Number.isFinite(v) && v > 0));
+  out.tableLayout = sanitizeLayout(s.tableLayout);
+  const sc = isObject(s.scenario) ? s.scenario : {};
+  out.scenario = {
+    mode: sc.mode === "target" ? "target" : "move",
+    movePct: Number.isFinite(sc.movePct) ? sc.movePct : defaults.scenario.movePct,
+    targets: isObject(sc.targets) ? sc.targets : {},
+    days: Number.isFinite(sc.days) ? sc.days : 0,
+  };
+  return out as Settings;
+}
+
+function sanitizePortfolio(raw: Record<string, any>, i: number): Portfolio {
+  const rows = objects(raw.rows).map(upgradeRow);
+  return {
+    id: typeof raw.id === "string" && raw.id ? raw.id : crypto.randomUUID(),
+    name: typeof raw.name === "string" && raw.name.trim() ? raw.name : `Portfolio ${i + 1}`,
+    rows,
+    strategies: objects(raw.strategies) as Strategy[],
+    journal: objects(raw.journal) as JournalEntry[],
+    alerts: objects(raw.alerts) as AlertRule[],
+    alertLog: objects(raw.alertLog) as AlertEvent[],
+    alertState: isObject(raw.alertState) ? raw.alertState : {},
+    history: sanitizeHistory(raw.history, rows.map((r) => r.id)),
+  };
+}
+
+export function sanitizeStore(doc: any): Store {
+  const portfolios = objects(doc?.portfolios).map(sanitizePortfolio);
+  if (!portfolios.length) portfolios.push(newPortfolio("Main"));
+  const activeId = portfolios.some((p) => p.id === doc?.activeId) ? doc.activeId : portfolios[0].id;
+  return { version: SCHEMA_VERSION, activeId, portfolios, settings: sanitizeSettings(doc?.settings) };
+}
+
+// ---------- load / save ----------
+function parse(storage: KeyValueStorage, key: string, notices: string[]) {
+  const raw = storage.getItem(key);
+  if (raw == null) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    const backup = `${key}_corrupt_${Date.now()}`;
+    try {
+      storage.setItem(backup, raw);
+      notices.push(`"${key}" could not be read; the raw text was kept under "${backup}".`);
+    } catch {
+      notices.push(`"${key}" could not be read and was skipped.`);
+    }
+    return undefined;
+  }
+}
+
+// the newest optionsRows_v* key plus, for v4, the per-feature keys next to it
+function readLegacy(storage: KeyValueStorage, notices: string[]) {
+  for (let v = 4; v >= 1; v--) {
+    if (storage.getItem(`optionsRows_v${v}`) == null) continue;
+    const doc: Record<string, any> = { version: v, rows: parse(storage, `optionsRows_v${v}`, notices) };
+    if (v === 4) {
+      doc.strategies = parse(storage, "optionsStrategies_v4", notices);
+      doc.journal = parse(storage, "optionsJournal_v4", notices);
+      doc.alerts = parse(storage, "optionsAlerts_v4", notices);
+      doc.alertLog = parse(storage, "optionsAlertLog_v4", notices);
+      doc.alertState = parse(storage, "optionsAlertState_v4", notices);
+    }
+    return doc;
+  }
+  return null;
+}
+
+// seedRows fills the first portfolio when there is nothing saved at all
+// readOnly: the document came from a newer schema, so saving over it would lose what this build can't read
+export function loadStore(storage: KeyValueStorage, seedRows: () => any[] = () => []): { store: Store; notices: string[]; readOnly: boolean } {
+  const notices: string[] = [];
+  const doc = parse(storage, STORE_KEY, notices);
+  const readOnly = isObject(doc) && Number.isInteger(doc.version) && doc.version > SCHEMA_VERSION;
+  if (doc !== undefined) {
+    try {
+      if (!isObject(doc) || !Number.isInteger(doc.version)) throw new Error("missing schema version");
+      if (readOnly) throw new Error(`saved by a newer version (schema ${doc.version})`);
+      return { store: sanitizeStore(migrate(doc)), notices, readOnly };
+    } catch (e) {
+      const backup = `${STORE_KEY}_corrupt_${Date.now()}`;
+      const reason = e instanceof Error ? e.message : String(e);
+      try {
+        storage.setItem(backup, JSON.stringify(doc));
+        notices.push(`Saved data could not be used (${reason}); it was kept under "${backup}".`);
+      } catch {
+        notices.push(`Saved data could not be used (${reason}).`);
+      }
+    }
+  }
+  const storeFailed = notices.length > 0;
+  const legacy = readLegacy(storage, notices);
+  if (legacy && storeFailed) notices.push("Loaded the older saved copy instead.");
+  return { store: sanitizeStore(legacy ? migrate(legacy) : { portfolios: [newPortfolio("Main", seedRows())] }), notices, readOnly };
+}
+
+// "" when saved, else the reason (usually the storage quota)
+export function saveStore(storage: KeyValueStorage, store: Store) {
+  const settings = store.settings.rememberApiKey ? store.settings : { ...store.settings, apiKey: "" };
+  try {
+    storage.setItem(STORE_KEY, JSON.stringify({ ...store, settings }));
+    return "";
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+}
@@ -0,0 +1,31 @@
+import { assert, test } from "vitest";
+import { PayoffLeg } from "./payoff";
+import { buildLegs, signedContracts, strategyStats, strategyTemplates } from "./strategy";
+
+const e = "2025-12-19";
+const legs: PayoffLeg[] = [
+  { type: "C", strike: 15, expiration: e, entryPrice: 2, contracts: signedContracts(1, "long"), iv: 0.8 },
+  { type: "C", strike: 20, expiration: e, entryPrice: 0.5, contracts: signedContracts(1, "short"), iv: 0.8 },
+];
+
+test("bull call spread sells the higher strike", () => {
+  const spread = buildLegs(strategyTemplates.find((t) => t.key === "bull-call")!, [15, 20], 1, e);
+  assert.equal(spread.length, 2);
+  assert.equal(spread[1].side, "short");
+  assert.equal(spread[1].strike, 20);
+});
+
+test("bull call 15/20 for 1.50: net, max profit / loss, breakeven", () => {
+  const s = strategyStats(legs, 0.045);
+  assert.equal(s.net, 150, "net = (2 - 0.5) * 100 = 150");
+  assert.closeTo(s.maxProfit, 350, 1e-6, "max profit 350");
+  assert.closeTo(s.maxLoss, -150, 1e-6, "max loss 150");
+  assert.equal(s.breakevens.length, 1);
+  assert.closeTo(s.breakevens[0], 16.5, 1e-6, "breaks even at 16.50");
+});
+
+test("naked short call: unlimited loss, max profit = credit", () => {
+  const naked = strategyStats([{ ...legs[1] }], 0.045);
+  assert.equal(naked.maxLoss, -Infinity);
+  assert.closeTo(naked.maxProfit, 50, 1e-6);
+});
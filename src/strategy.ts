@@ -0,0 +1,134 @@
+/**
+ * Multi-leg strategies
+ * --------------------------------------------
+ * - A strategy is a named group; rows join it through `strategyId`.
+ * - Legs carry a side: "long" (buy to open) or "short" (sell to open). Short legs use negative contracts in the math.
+ * - Max profit / loss and breakevens are read off the P/L curve at the earliest leg expiry.
+ *   A curve that still slopes at very high prices is reported as unlimited (±Infinity).
+ */
+
+import { earliestExpiry, findBreakevens, payoffAt, payoffCurve, PayoffLeg } from "./payoff";
+import { OptionType } from "./pricing";
+
+export type Side = "long" | "short";
+
+export type Strategy = { id: string; name: string; template: string };
+
+export type LegSpec = { side: Side; type: OptionType; strike: number; expiration: string; contracts: number };
+
+export type StrategyTemplate = {
+  key: string;
+  label: string;
+  strikes: string[]; // input labels, low → high
+  farExpiry?: boolean; // calendars need a second expiration
+  build: (strikes: number[], expiration: string, farExpiration: string) => Omit<LegSpec, "contracts">[];
+};
+
+export const signedContracts = (contracts: number, side: Side | undefined) => (side === "short" ? -Math.abs(contracts) : Math.abs(contracts));
+
+export const strategyTemplates: StrategyTemplate[] = [
+  { key: "long-call", label: "Long Call", strikes: ["Strike"], build: ([k], e) => [{ side: "long", type: "C", strike: k, expiration: e }] },
+  { key: "long-put", label: "Long Put", strikes: ["Strike"], build: ([k], e) => [{ side: "long", type: "P", strike: k, expiration: e }] },
+  {
+    key: "bull-call",
+    label: "Bull Call Spread (debit)",
+    strikes: ["Long call", "Short call"],
+    build: ([lo, hi], e) => [
+      { side: "long", type: "C", strike: lo, expiration: e },
+      { side: "short", type: "C", strike: hi, expiration: e },
+    ],
+  },
+  {
+    key: "bear-put",
+    label: "Bear Put Spread (debit)",
+    strikes: ["Short put", "Long put"],
+    build: ([lo, hi], e) => [
+      { side: "long", type: "P", strike: hi, expiration: e },
+      { side: "short", type: "P", strike: lo, expiration: e },
+    ],
+  },
+  {
+    key: "bull-put",
+    label: "Bull Put Spread (credit)",
+    strikes: ["Long put", "Short put"],
+    build: ([lo, hi], e) => [
+      { side: "short", type: "P", strike: hi, expiration: e },
+      { side: "long", type: "P", strike: lo, expiration: e },
+    ],
+  },
+  {
+    key: "bear-call",
+    label: "Bear Call Spread (credit)",
+    strikes: ["Short call", "Long call"],
+    build: ([lo, hi], e) => [
+      { side: "short", type: "C", strike: lo, expiration: e },
+      { side: "long", type: "C", strike: hi, expiration: e },
+    ],
+  },
+  {
+    key: "straddle",
+    label: "Long Straddle",
+    strikes: ["Strike"],
+    build: ([k], e) => [
+      { side: "long", type: "C", strike: k, expiration: e },
+      { side: "long", type: "P", strike: k, expiration: e },
+    ],
+  },
+  {
+    key: "strangle",
+    label: "Long Strangle",
+    strikes: ["Put strike", "Call strike"],
+    build: ([lo, hi], e) => [
+      { side: "long", type: "P", strike: lo, expiration: e },
+      { side: "long", type: "C", strike: hi, expiration: e },
+    ],
+  },
+  {
+    key: "iron-condor",
+    label: "Iron Condor",
+    strikes: ["Long put", "Short put", "Short call", "Long call"],
+    build: ([a, b, c, d], e) => [
+      { side: "long", type: "P", strike: a, expiration: e },
+      { side: "short", type: "P", strike: b, expiration: e },
+      { side: "short", type: "C", strike: c, expiration: e },
+      { side: "long", type: "C", strike: d, expiration: e },
+    ],
+  },
+  {
+    key: "calendar",
+    label: "Call Calendar",
+    strikes: ["Strike"],
+    farExpiry: true,
+    build: ([k], near, far) => [
+      { side: "short", type: "C", strike: k, expiration: near },
+      { side: "long", type: "C", strike: k, expiration: far },
+    ],
+  },
+];
+
+export function buildLegs(template: StrategyTemplate, strikes: number[], contracts: number, expiration: string, farExpiration = "") {
+  return template.build(strikes, expiration, farExpiration).map((leg) => ({ ...leg, contracts }));
+}
+
+// positive = net debit paid, negative = net credit received (legs use signed contracts)
+export const netPremium = (legs: PayoffLeg[]) => legs.reduce((acc, l) => acc + l.entryPrice * l.contracts * (l.multiplier ?? 100), 0);
+
+export function strategyStats(legs: PayoffLeg[], rate: number) {
+  const at = earliestExpiry(legs);
+  const strikes = legs.map((l) => l.strike).filter((k) => Number.isFinite(k) && k > 0);
+  if (!legs.length || !Number.isFinite(at) || !strikes.length) {
+    return { net: netPremium(legs), maxProfit: NaN, maxLoss: NaN, breakevens: [] as number[] };
+  }
+
+  const top = Math.max(...strikes) * 2;
+  const curve = payoffCurve(legs, [0.01, top], at, rate, 400);
+  const ys = [...curve.map((p) => p.y), ...strikes.map((k) => payoffAt(legs, k, at, rate))].filter(Number.isFinite);
+  const slope = (payoffAt(legs, top * 2, at, rate) - payoffAt(legs, top, at, rate)) / top;
+
+  return {
+    net: netPremium(legs),
+    maxProfit: slope > 1 ? Infinity : Math.max(...ys),
+    maxLoss: slope < -1 ? -Infinity : Math.min(...ys),
+    breakevens: findBreakevens(curve),
+  };
+}
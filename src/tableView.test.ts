@@ -0,0 +1,53 @@
+import { assert, test } from "vitest";
+import { defaultTableLayout, emptyFilter, filterRows, groupRows, moveColumn, nextSort, sanitizeLayout, sortRows, subtotals, tableColumns, toggleColumn } from "./tableView";
+
+const rows = [
+  { id: "a", ticker: "CIFR", type: "C", expiration: "2025-12-19", strike: "15", unrealNow: 120, curValue: 300, delta: 50, fx: 1 },
+  { id: "b", ticker: "iren", type: "P", expiration: "2026-01-16", strike: "9.5", unrealNow: -40, curValue: 100, delta: -20, fx: 1.1 },
+  { id: "c", ticker: "CIFR", type: "P", expiration: "", strike: "", unrealNow: NaN, curValue: NaN, delta: NaN, fx: 1 },
+];
+const ids = (list: { id: string }[]) => list.map((r) => r.id).join("");
+
+test("sorting", () => {
+  assert.equal(ids(sortRows(rows, "asc", (r) => r.strike)), "bac", "numeric strings sort as numbers, blanks last");
+  assert.equal(ids(sortRows(rows, "desc", (r) => r.strike)), "abc", "blanks last descending too");
+  assert.equal(ids(sortRows(rows, "asc", (r) => r.ticker)), "acb", "text case-insensitive, stable");
+  assert.equal(ids(sortRows(rows, "desc", (r) => r.unrealNow)), "abc");
+});
+
+test("filters", () => {
+  assert.equal(ids(filterRows(rows, { ...emptyFilter(), ticker: "cif" })), "ac", "ticker filter");
+  assert.equal(ids(filterRows(rows, { ...emptyFilter(), type: "P", pl: "loss" })), "b", "type / P&L filters");
+  assert.equal(ids(filterRows(rows, { ...emptyFilter(), expFrom: "2026-01-01" })), "b", "expiry range, undated rows out");
+  assert.equal(ids(filterRows(rows, { ...emptyFilter(), expTo: "2025-12-31" })), "a");
+});
+
+test("grouping and subtotals", () => {
+  const byTicker = groupRows(rows, "ticker");
+  assert.deepEqual(byTicker.map((g) => `${g.key}:${ids(g.rows)}`), ["CIFR:ac", "IREN:b"], "groups by ticker");
+  assert.equal(groupRows(rows, "expiration")[2].key, "", "groups by expiry, blank last");
+  const sub = subtotals(rows);
+  assert.closeTo(sub.curValue, 410, 1e-9, "money × fx, NaN skipped");
+  assert.equal(sub.delta, 30, "delta in shares");
+  assert.closeTo(sub.unrealNow, 76, 1e-9);
+});
+
+test("layout sanitized, columns toggled and reordered", () => {
+  const layout = sanitizeLayout({ columns: ["notes", "bogus", "ticker", "notes"], sortKey: "unrealNow", sortDir: "sideways", groupBy: "ticker" });
+  assert.deepEqual(layout.columns, ["notes", "ticker"]);
+  assert.equal(layout.sortKey, "unrealNow");
+  assert.equal(layout.sortDir, "asc");
+  assert.equal(layout.groupBy, "ticker");
+  assert.equal(sanitizeLayout(null).columns.length, tableColumns.length, "no layout → every column");
+  assert.deepEqual(toggleColumn(["ticker", "notes"], "contract"), ["ticker", "contract", "notes"], "shown again in registry position");
+  assert.deepEqual(toggleColumn(["ticker"], "ticker"), ["ticker"], "last column stays");
+  assert.deepEqual(moveColumn(["a", "b", "c"], "c", -1), ["a", "c", "b"], "reorder");
+  assert.deepEqual(moveColumn(["a", "b"], "a", -1), ["a", "b"]);
+});
+
+test("header clicks cycle asc → desc → off", () => {
+  const s1 = nextSort(defaultTableLayout(), "delta");
+  assert.equal(s1.sortDir, "asc");
+  assert.equal(nextSort({ ...defaultTableLayout(), ...s1 }, "delta").sortDir, "desc");
+  assert.equal(nextSort({ ...defaultTableLayout(), sortKey: "delta", sortDir: "desc" }, "delta").sortKey, "");
+});
@@ -0,0 +1,186 @@
+/**
+ * Positions table layout: columns, sorting, filters, grouping
+ * --------------------------------------------
+ * - The registry lists every column the portfolio table can show, in default order; the layout keeps the
+ *   visible ones in the user's order plus the sort and grouping, and is saved with the settings.
+ * - Sorting compares numbers as numbers (numeric strings included) and everything else as text;
+ *   blanks and NaN always go last, whichever the direction.
+ * - Filters (ticker, type, expiry range, P/L sign) are for the session only and are not saved.
+ * - Group subtotals add the money columns converted to the base currency (row `fx`); delta and gamma stay in shares.
+ */
+
+export type TableColumn = {
+  key: string;
+  header: (pct: number) => string;
+  total?: "money" | "shares"; // summed in group subtotals
+};
+
+export type SortDir = "asc" | "desc";
+export type GroupBy = "" | "ticker" | "expiration";
+
+export type TableLayout = {
+  columns: string[]; // visible, in display order
+  sortKey: string; // "" = insertion order
+  sortDir: SortDir;
+  groupBy: GroupBy;
+};
+
+export type TableFilter = {
+  ticker: string;
+  type: "" | "C" | "P";
+  expFrom: string; // YYYY-MM-DD, "" = open
+  expTo: string;
+  pl: "" | "gain" | "loss"; // by unrealized P/L now
+};
+
+const col = (key: string, header: string | ((pct: number) => string), total?: TableColumn["total"]): TableColumn => ({
+  key,
+  header: typeof header === "string" ? () => header : header,
+  total,
+});
+
+export const tableColumns: TableColumn[] = [
+  col("ticker", "Ticker"),
+  col("underlying", "Underlying $"),
+  col("contract", "Contract"),
+  col("expiration", "Exp."),
+  col("dte", "DTE"),
+  col("strike", "Strike"),
+  col("type", "Type"),
+  col("multiplier", "Mult."),
+  col("exercise", "Exercise"),
+  col("settlement", "Settle"),
+  col("currency", "Ccy"),
+  col("side", "Side"),
+  col("contracts", "Contracts"),
+  col("openDate", "Opened"),
+  col("entryPrice", "Entry $"),
+  col("fees", "Fees $"),
+  col("currentPrice", "Current $"),
+  col("quote", "Quote"),
+  col("iv", "IV %"),
+  col("plusPrice", (p) => `+${p}% $`),
+  col("minusPrice", (p) => `-${p}% $`),
+  col("curValue", "Current Value", "money"),
+  col("plusValue", (p) => `+${p}% Value`, "money"),
+  col("minusValue", (p) => `-${p}% Value`, "money"),
+  col("unrealNow", "Unreal. P/L Now", "money"),
+  col("realizedPlus", (p) => `Realized @ +${p}%`, "money"),
+  col("realizedMinus", (p) => `Realized @ -${p}%`, "money"),
+  col("breakevenStock", "Breakeven"),
+  col("scenUnderlying", "Scen. Underlying"),
+  col("scenPrice", "Scen. $"),
+  col("scenValue", "Scen. Value", "money"),
+  col("scenPL", "Scen. P/L", "money"),
+  col("theo", "Theo $"),
+  col("delta", "Delta", "shares"),
+  col("gamma", "Gamma", "shares"),
+  col("theta", "Theta/day", "money"),
+  col("vega", "Vega", "money"),
+  col("rho", "Rho", "money"),
+  col("strategy", "Strategy"),
+  col("notes", "Notes"),
+];
+
+const KEYS = new Set(tableColumns.map((c) => c.key));
+
+export const defaultTableLayout = (): TableLayout => ({ columns: tableColumns.map((c) => c.key), sortKey: "", sortDir: "asc", groupBy: "" });
+
+export const emptyFilter = (): TableFilter => ({ ticker: "", type: "", expFrom: "", expTo: "", pl: "" });
+
+// unknown / duplicate columns dropped; an empty pick falls back to the defaults
+export function sanitizeLayout(raw: unknown): TableLayout {
+  const d = defaultTableLayout();
+  const l: Record<string, any> = raw && typeof raw === "object" && !Array.isArray(raw) ? raw : {};
+  const columns = Array.isArray(l.columns) ? Array.from(new Set(l.columns.filter((k: unknown) => typeof k === "string" && KEYS.has(k)))) : [];
+  return {
+    columns: columns.length ? (columns as string[]) : d.columns,
+    sortKey: typeof l.sortKey === "string" && KEYS.has(l.sortKey) ? l.sortKey : "",
+    sortDir: l.sortDir === "desc" ? "desc" : "asc",
+    groupBy: l.groupBy === "ticker" || l.groupBy === "expiration" ? l.groupBy : "",
+  };
+}
+
+// show / hide keeps the registry position for a column coming back
+export function toggleColumn(columns: string[], key: string) {
+  if (columns.includes(key)) return columns.length > 1 ? columns.filter((k) => k !== key) : columns;
+  const at = tableColumns.findIndex((c) => c.key === key);
+  const before = columns.findIndex((k) => tableColumns.findIndex((c) => c.key === k) > at);
+  return before < 0 ? [...columns, key] : [...columns.slice(0, before), key, ...columns.slice(before)];
+}
+
+export function moveColumn(columns: string[], key: string, by: -1 | 1) {
+  const i = columns.indexOf(key);
+  const j = i + by;
+  if (i < 0 || j < 0 || j >= columns.length) return columns;
+  const out = columns.slice();
+  [out[i], out[j]] = [out[j], out[i]];
+  return out;
+}
+
+// click cycles a column: ascending → descending → unsorted
+export function nextSort(layout: TableLayout, key: string): Pick<TableLayout, "sortKey" | "sortDir"> {
+  if (layout.sortKey !== key) return { sortKey: key, sortDir: "asc" };
+  return layout.sortDir === "asc" ? { sortKey: key, sortDir: "desc" } : { sortKey: "", sortDir: "asc" };
+}
+
+const sortable = (v: unknown): number | string | null => {
+  if (typeof v === "number") return Number.isFinite(v) ? v : null;
+  if (typeof v !== "string" || v.trim() === "") return null;
+  return /^\s*-?(\d+\.?\d*|\.\d+)\s*$/.test(v) ? parseFloat(v) : v.trim().toLowerCase();
+};
+
+// stable; numbers before text, blanks last in either direction
+export function sortRows<T>(rows: T[], dir: SortDir, value: (r: T) => unknown): T[] {
+  const sign = dir === "desc" ? -1 : 1;
+  const keyed = rows.map((r, i) => ({ r, i, v: sortable(value(r)) }));
+  keyed.sort((a, b) => {
+    if (a.v === null || b.v === null) return a.v === b.v ? a.i - b.i : a.v === null ? 1 : -1;
+    if (typeof a.v !== typeof b.v) return typeof a.v === "number" ? -1 : 1;
+    const c = typeof a.v === "number" ? a.v - (b.v as number) : (a.v as string).localeCompare(b.v as string);
+    return c === 0 ? a.i - b.i : c * sign;
+  });
+  return keyed.map((k) => k.r);
+}
+
+export const isFiltered = (f: TableFilter) => Object.values(f).some((v) => v !== "");
+
+export function filterRows<T extends Record<string, any>>(rows: T[], f: TableFilter): T[] {
+  const ticker = f.ticker.trim().toUpperCase();
+  return rows.filter((r) => {
+    if (ticker && !String(r.ticker ?? "").toUpperCase().includes(ticker)) return false;
+    if (f.type && r.type !== f.type) return false;
+    if ((f.expFrom || f.expTo) && !r.expiration) return false;
+    if (f.expFrom && r.expiration < f.expFrom) return false;
+    if (f.expTo && r.expiration > f.expTo) return false;
+    if (f.pl === "gain" && !(r.unrealNow > 0)) return false;
+    if (f.pl === "loss" && !(r.unrealNow < 0)) return false;
+    return true;
+  });
+}
+
+export type RowGroup<T> = { key: string; rows: T[] };
+
+// groups in key order (undated / blank last); rows keep their sorted order inside a group
+export function groupRows<T extends Record<string, any>>(rows: T[], by: GroupBy): RowGroup<T>[] {
+  if (!by) return [{ key: "", rows }];
+  const groups = new Map<string, T[]>();
+  for (const r of rows) {
+    const key = by === "ticker" ? String(r.ticker ?? "").trim().toUpperCase() : String(r.expiration ?? "");
+    groups.set(key, [...(groups.get(key) ?? []), r]);
+  }
+  return Array.from(groups, ([key, rows]) => ({ key, rows })).sort((a, b) => (!a.key ? 1 : !b.key ? -1 : a.key.localeCompare(b.key)));
+}
+
+// subtotal per summable column; money in the base currency
+export function subtotals(rows: Record<string, any>[]) {
+  const out: Record<string, number> = {};
+  for (const c of tableColumns) {
+    if (!c.total) continue;
+    out[c.key] = rows.reduce((n, r) => {
+      const v = c.total === "money" ? r[c.key] * (r.fx ?? 1) : r[c.key];
+      return n + (Number.isFinite(v) ? v : 0);
+    }, 0);
+  }
+  return out;
+}